@@ -0,0 +1,52 @@
+import { createHash } from 'node:crypto';
+import { readFile } from 'node:fs/promises';
+import { dirname, relative, resolve, sep } from 'node:path';
+import { BUNDLE_FORMAT, SCHEMA_BUNDLE_VERSION, type SchemaBundle, encodeGraph } from './bundle.js';
+import { XsdParseError } from './validation/errors.js';
+import type { SchemaModel } from './xsd/types.js';
+
+/**
+ * Turns a `SchemaModel` returned by `parseXsd` into a versioned bundle. Reads
+ * the schema files listed in `model.sourceFiles` to compute the checksum.
+ *
+ * @throws `XsdParseError` if the model does not record its source files.
+ */
+export async function createSchemaBundle(model: SchemaModel): Promise<SchemaBundle> {
+  const files = model.sourceFiles;
+  if (!files || files.length === 0) {
+    throw new XsdParseError('Cannot bundle a schema model without sourceFiles (use parseXsd).');
+  }
+  const baseDir = dirname(files[0]);
+  const sources = files.map((file) => relative(baseDir, file).split(sep).join('/'));
+  const { sourceFiles: _sourceFiles, ...portable } = model;
+  return {
+    format: BUNDLE_FORMAT,
+    version: SCHEMA_BUNDLE_VERSION,
+    checksum: await checksumSources(baseDir, sources),
+    sources,
+    model: encodeGraph(portable),
+  };
+}
+
+/**
+ * True when the schema files in `schemaDir` (the directory of the main schema)
+ * no longer match the checksum recorded in the bundle.
+ */
+export async function isSchemaBundleStale(
+  bundle: SchemaBundle,
+  schemaDir: string,
+): Promise<boolean> {
+  return (await checksumSources(schemaDir, bundle.sources)) !== bundle.checksum;
+}
+
+/** Hashes each source's path and contents; unreadable files (skipped imports) hash as absent. */
+async function checksumSources(baseDir: string, sources: string[]): Promise<string> {
+  const hash = createHash('sha256');
+  for (const source of sources) {
+    const content = await readFile(resolve(baseDir, source)).catch(() => undefined);
+    hash.update(`${source}\0${content ? 'file' : 'missing'}\0`);
+    if (content) hash.update(content);
+    hash.update('\0');
+  }
+  return hash.digest('hex');
+}
@@ -0,0 +1,104 @@
+import type { JsonObject, JsonValue } from './types.js';
+import { isJsonObject } from './utils.js';
+import { XsdParseError } from './validation/errors.js';
+import type { SchemaModel } from './xsd/types.js';
+
+/** Value of `SchemaBundle.format`. */
+export const BUNDLE_FORMAT = 'json-xsd-to-xml/schema-bundle';
+
+/** Version of the bundle layout; bundles of any other version are rejected by the loader. */
+export const SCHEMA_BUNDLE_VERSION = 1;
+
+/**
+ * A resolved `SchemaModel` (includes and imports merged) as plain JSON, ready
+ * to be written to disk and loaded without the XSD files.
+ */
+export interface SchemaBundle {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  /** SHA-256 (hex) of the source schema files, in the order they were read. */
+  checksum: string;
+  /** Source schema files, relative to the directory of the main schema ('/'-separated). */
+  sources: string[];
+  /**
+   * The model with its `Map`s turned into `{ "$map": [[key, value], …] }`.
+   * A declaration reachable from several places (e.g. an imported type
+   * registered under each prefix) is written once and referenced as
+   * `{ "$ref": n }` afterwards, so the loaded model shares it the same way.
+   */
+  model: JsonValue;
+}
+
+/**
+ * Rebuilds the `SchemaModel` of a bundle (the object or its JSON text). Does not
+ * touch the filesystem; use `isSchemaBundleStale` to compare against the sources.
+ *
+ * @throws `XsdParseError` if the input is not a schema bundle of the supported version.
+ */
+export function loadSchemaBundle(bundle: SchemaBundle | string): SchemaModel {
+  let parsed: SchemaBundle;
+  try {
+    parsed = typeof bundle === 'string' ? (JSON.parse(bundle) as SchemaBundle) : bundle;
+  } catch (err) {
+    throw new XsdParseError('Schema bundle is not valid JSON.', err);
+  }
+  if (parsed?.format !== BUNDLE_FORMAT) {
+    throw new XsdParseError('Not a json-xsd-to-xml schema bundle.');
+  }
+  if (parsed.version !== SCHEMA_BUNDLE_VERSION) {
+    throw new XsdParseError(
+      `Unsupported schema bundle version ${parsed.version} (expected ${SCHEMA_BUNDLE_VERSION}).`,
+    );
+  }
+  return decodeGraph(parsed.model) as SchemaModel;
+}
+
+/**
+ * Encodes an object graph as JSON. Objects, arrays and maps get an id in
+ * depth-first order on first sight; later occurrences become `{ $ref: id }`.
+ */
+export function encodeGraph(root: unknown): JsonValue {
+  const ids = new Map<object, number>();
+  const encode = (value: unknown): JsonValue => {
+    if (value === null || typeof value !== 'object') return value as JsonValue;
+    const id = ids.get(value);
+    if (id !== undefined) return { $ref: id };
+    ids.set(value, ids.size);
+    if (value instanceof Map) {
+      return { $map: [...value].map(([k, v]): JsonValue => [k, encode(v)]) };
+    }
+    if (Array.isArray(value)) return value.map(encode);
+    const out: JsonObject = {};
+    for (const [k, v] of Object.entries(value)) {
+      if (v !== undefined) out[k] = encode(v);
+    }
+    return out;
+  };
+  return encode(root);
+}
+
+/** Inverse of `encodeGraph`: assigns ids in the same order so references resolve. */
+function decodeGraph(root: JsonValue): unknown {
+  const nodes: unknown[] = [];
+  const decode = (value: JsonValue): unknown => {
+    if (Array.isArray(value)) {
+      const array: unknown[] = [];
+      nodes.push(array);
+      for (const item of value) array.push(decode(item));
+      return array;
+    }
+    if (!isJsonObject(value)) return value;
+    if (typeof value.$ref === 'number') return nodes[value.$ref];
+    if (Array.isArray(value.$map)) {
+      const map = new Map<string, unknown>();
+      nodes.push(map);
+      for (const [k, v] of value.$map as [string, JsonValue][]) map.set(k, decode(v));
+      return map;
+    }
+    const obj: Record<string, unknown> = {};
+    nodes.push(obj);
+    for (const [k, v] of Object.entries(value)) obj[k] = decode(v);
+    return obj;
+  };
+  return decode(root);
+}
@@ -0,0 +1,89 @@
+import { readFile, writeFile } from 'node:fs/promises';
+import { parseArgs } from 'node:util';
+import { createSchemaBundle, isSchemaBundleStale } from './bundle-fs.js';
+import { type SchemaBundle, loadSchemaBundle } from './bundle.js';
+import { parseXsd } from './xsd/parser.js';
+
+const USAGE = `Usage:
+  json-xsd-to-xml bundle <schema.xsd> [--out <bundle.json>]
+      Parses the schema (includes and imports merged) and writes it as a JSON bundle
+      (to stdout without --out).
+  json-xsd-to-xml check-bundle <bundle.json> <schema-dir>
+      Exits with status 1 when the schemas in <schema-dir> no longer match the bundle.`;
+
+/** Where the CLI writes its output; defaults to the process streams. */
+export interface CliOutput {
+  out: (text: string) => void;
+  err: (text: string) => void;
+}
+
+const processOutput: CliOutput = {
+  out: (text) => process.stdout.write(`${text}\n`),
+  err: (text) => process.stderr.write(`${text}\n`),
+};
+
+/**
+ * Runs the command-line interface with the given arguments (without the node
+ * and script paths) and resolves to the exit status: 0 on success, 1 on
+ * failure, 2 on a usage error.
+ */
+export async function runCli(args: string[], output: CliOutput = processOutput): Promise<number> {
+  const [command, ...rest] = args;
+  try {
+    switch (command) {
+      case 'bundle':
+        return await bundleCommand(rest, output);
+      case 'check-bundle':
+        return await checkBundleCommand(rest, output);
+      default:
+        output.err(USAGE);
+        return 2;
+    }
+  } catch (err) {
+    output.err(err instanceof Error ? err.message : String(err));
+    return 1;
+  }
+}
+
+async function bundleCommand(args: string[], output: CliOutput): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args,
+    options: { out: { type: 'string', short: 'o' } },
+    allowPositionals: true,
+  });
+  if (positionals.length !== 1) {
+    output.err(USAGE);
+    return 2;
+  }
+  const model = await parseXsd(positionals[0]);
+  for (const d of model.diagnostics ?? []) {
+    output.err(`${d.severity}: [${d.schemaFile}] ${d.message}`);
+  }
+  const bundle = await createSchemaBundle(model);
+  const json = JSON.stringify(bundle);
+  if (values.out) {
+    await writeFile(values.out, json);
+    output.out(`Wrote ${values.out} (${bundle.sources.length} schema files)`);
+  } else {
+    output.out(json);
+  }
+  return 0;
+}
+
+async function checkBundleCommand(args: string[], output: CliOutput): Promise<number> {
+  const { positionals } = parseArgs({ args, allowPositionals: true });
+  if (positionals.length !== 2) {
+    output.err(USAGE);
+    return 2;
+  }
+  const [bundlePath, schemaDir] = positionals;
+  const bundle = JSON.parse(await readFile(bundlePath, 'utf-8')) as SchemaBundle;
+  // Rejects unknown formats and versions before comparing checksums
+  loadSchemaBundle(bundle);
+  if (await isSchemaBundleStale(bundle, schemaDir)) {
+    output.err(`${bundlePath} is stale: the schemas in ${schemaDir} have changed.`);
+    return 1;
+  }
+  output.out(`${bundlePath} is up to date.`);
+  return 0;
+}
@@ -0,0 +1,164 @@
+import { stat } from 'node:fs/promises';
+import { resolve } from 'node:path';
+import { CompiledSchema } from './schema.js';
+import { parseXsd } from './xsd/parser.js';
+import type { SchemaResolver } from './xsd/resolvers.js';
+import type { InlineSchema } from './xsd/schema-parser.js';
+import type { SchemaModel } from './xsd/types.js';
+
+export { CompiledSchema } from './schema.js';
+export type {
+  ConvertOptions,
+  NullHandling,
+  SoapConvertOptions,
+  TimezonePolicy,
+  ValidateOptions,
+} from './schema.js';
+export type { TransformContext, Transformers, ValueTransformer } from './transform.js';
+export type { KeyAliases, KeyMatching } from './keys.js';
+
+/**
+ * Options for `compileSchema`.
+ */
+export interface CompileOptions {
+  /**
+   * Base directory to resolve relative XSD paths.
+   * Defaults to `process.cwd()`.
+   */
+  xsdBaseDir?: string;
+  /**
+   * Throw an `XsdParseError` when an include, import or reference of the schema
+   * cannot be resolved (see `SchemaModel.diagnostics`).
+   * @default false
+   */
+  failOnUnresolved?: boolean;
+  /**
+   * Locates and reads the schema documents (e.g. `catalogResolver` to map URL
+   * imports to local copies). Defaults to the filesystem.
+   */
+  resolver?: SchemaResolver;
+  /**
+   * Keeps the compiled schema in an in-process cache and returns it on later
+   * calls, as long as none of its schema files (includes and imports too) has
+   * been modified since. `true` keys the entry by the resolved XSD path; a
+   * string is used as the key itself. Calls with another `resolver` or
+   * `failOnUnresolved` get entries of their own under the same key.
+   * @default false
+   */
+  cache?: boolean | string;
+}
+
+const schemaCache = new Map<string, Promise<CompiledSchema>>();
+/** Identities of the resolvers given to `compileSchema`, part of the cache keys. */
+const resolverIds = new WeakMap<SchemaResolver, number>();
+let nextResolverId = 0;
+
+/**
+ * The cache entry of a key for the options that change what gets parsed: the
+ * same schema loaded through another resolver, or with `failOnUnresolved`,
+ * is cached apart.
+ */
+function cacheEntryKey(key: string, { failOnUnresolved, resolver }: CompileOptions): string {
+  let entry = key;
+  if (failOnUnresolved) entry += '\nfailOnUnresolved';
+  if (resolver) {
+    let id = resolverIds.get(resolver);
+    if (id === undefined) {
+      id = nextResolverId++;
+      resolverIds.set(resolver, id);
+    }
+    entry += `\nresolver#${id}`;
+  }
+  return entry;
+}
+
+/**
+ * Parses an XSD schema (with its includes and imports) once, for reuse across
+ * conversions. Schema text (`InlineSchema`) is parsed as `loadSchema` does, and
+ * an already loaded `SchemaModel` (e.g. from `loadSchemaBundle`) is wrapped as
+ * is, without touching the filesystem.
+ *
+ * @param schema  - Path to the `.xsd` schema file (absolute or relative to `xsdBaseDir`),
+ *                  an `InlineSchema` or a `SchemaModel`.
+ * @param options - Optional configuration (`cache` applies to paths only).
+ *
+ * @throws `XsdParseError` if the XSD file cannot be read or parsed.
+ *
+ * @example
+ * ```typescript
+ * const schema = await compileSchema('./tissV4_01_00.xsd', { cache: true });
+ * for (const doc of documents) {
+ *   const xml = schema.convert(doc, { strict: true });
+ * }
+ * ```
+ */
+export async function compileSchema(
+  schema: string | InlineSchema | SchemaModel,
+  options: CompileOptions = {},
+): Promise<CompiledSchema> {
+  if (typeof schema !== 'string' && !('content' in schema)) return new CompiledSchema(schema);
+  const { cache = false, ...parseOptions } = options;
+  if (typeof schema !== 'string') return compile(schema, parseOptions);
+  const xsdPath = schema;
+  if (!cache) return compile(xsdPath, parseOptions);
+
+  const key = cacheEntryKey(
+    typeof cache === 'string' ? cache : resolve(options.xsdBaseDir ?? '', xsdPath),
+    options,
+  );
+  const cached = schemaCache.get(key);
+  if (cached) {
+    const compiled = await cached.catch(() => undefined);
+    if (compiled && !(await compiled.isStale())) return compiled;
+    // Another call may already have replaced the stale entry
+    if (schemaCache.get(key) !== cached) return compileSchema(xsdPath, options);
+  }
+
+  const pending = compile(xsdPath, parseOptions);
+  schemaCache.set(key, pending);
+  pending.catch(() => {
+    if (schemaCache.get(key) === pending) schemaCache.delete(key);
+  });
+  return pending;
+}
+
+/**
+ * Removes the entries of one key (whatever the resolver and `failOnUnresolved`
+ * they were compiled with) or every entry from the `compileSchema` cache.
+ */
+export function clearSchemaCache(key?: string): void {
+  if (key === undefined) {
+    schemaCache.clear();
+    return;
+  }
+  for (const entry of [...schemaCache.keys()]) {
+    if (entry === key || entry.startsWith(`${key}\n`)) schemaCache.delete(entry);
+  }
+}
+
+async function compile(
+  xsdPath: string | InlineSchema,
+  { xsdBaseDir, failOnUnresolved, resolver }: Omit<CompileOptions, 'cache'>,
+): Promise<CompiledSchema> {
+  const model = await parseXsd(xsdPath, { baseDir: xsdBaseDir, failOnUnresolved, resolver });
+  if (typeof xsdPath !== 'string') return new CompiledSchema(model);
+  const files = model.sourceFiles ?? [];
+  const modificationTimes = await readModificationTimes(files);
+  return new CompiledSchema(model, async () => {
+    const current = await readModificationTimes(files);
+    return files.some((file) => current.get(file) !== modificationTimes.get(file));
+  });
+}
+
+async function readModificationTimes(files: string[]): Promise<Map<string, number>> {
+  const times = await Promise.all(
+    files.map(async (file) => {
+      const mtime = await stat(file).then(
+        (s) => s.mtimeMs,
+        () => -1,
+      );
+      return [file, mtime] as const;
+    }),
+  );
+  return new Map(times);
+}
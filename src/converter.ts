@@ -1,8 +1,10 @@
+import { compileSchema } from './compiled-schema.js';
+import type { ConvertOptions } from './schema.js';
+import type { SoapMessage, SoapOptions } from './soap.js';
 import type { JsonObject } from './types.js';
-import { validateJson } from './validation/json-validator.js';
-import { buildXml } from './xml/builder.js';
-import { parseXsd } from './xsd/parser.js';
-import { SchemaWalker } from './xsd/walker.js';
+import type { SchemaResolver } from './xsd/resolvers.js';
+import type { InlineSchema } from './xsd/schema-parser.js';
+import type { SchemaModel } from './xsd/types.js';
 
 // Re-export for external typing convenience
 export type { SchemaModel } from './xsd/types.js';
@@ -10,65 +12,43 @@ export type { SchemaModel } from './xsd/types.js';
 /**
  * Options for `convertJsonToXml`.
  */
-export interface ConverterOptions {
-  /**
-   * Whether to pretty-print the output XML (indentation + newlines).
-   * @default false
-   */
-  prettyPrint?: boolean;
-  /**
-   * Whether to include an XML declaration (`<?xml version="1.0" encoding="..."?>`).
-   * @default true
-   */
-  xmlDeclaration?: boolean;
+export interface ConverterOptions extends ConvertOptions {
   /**
    * Base directory to resolve relative XSD paths.
    * Defaults to `process.cwd()`.
    */
   xsdBaseDir?: string;
   /**
-   * Encoding declared in the XML declaration.
-   * @default 'UTF-8'
-   */
-  encoding?: string;
-  /**
-   * Prefix used in JSON keys to indicate XML attributes.
-   * e.g. `{ "@id": "123" }` → `<element id="123"/>`
-   * @default '@'
-   */
-  attributePrefix?: string;
-  /**
-   * JSON key used to represent text content of an element.
-   * e.g. `{ "#text": "hello" }` → `<element>hello</element>`
-   * @default '#text'
-   */
-  textNodeKey?: string;
-  /**
-   * When `true`, validates the JSON against the XSD schema before generating XML.
-   * Throws `XsdValidationError` if any constraint is violated.
+   * Throw an `XsdParseError` when an include, import or reference of the schema
+   * cannot be resolved, instead of converting with whatever could be loaded.
    * @default false
    */
-  strict?: boolean;
+  failOnUnresolved?: boolean;
   /**
-   * Override the root element name used for XML generation.
-   * Useful when the schema defines multiple top-level elements (e.g. WSDL) and
-   * the desired root cannot be inferred automatically from the JSON structure.
-   * @example `{ rootElement: 'solicitacaoStatusAutorizacaoWS' }`
+   * Locates and reads the schema documents, e.g. `catalogResolver('catalog.xml')`
+   * to map URL imports to vendored files, or `memoryResolver({ … })`.
+   * Defaults to the filesystem (relative to `xsdBaseDir`).
    */
-  rootElement?: string;
+  resolver?: SchemaResolver;
 }
 
 /**
  * Converts a JSON object to an XML string guided by the provided XSD schema.
+ * The schema is parsed on every call; use `compileSchema` to parse it once for
+ * many documents.
  *
  * @param json     - The JSON data to convert.
- * @param xsdPath  - Path to the `.xsd` schema file (absolute or relative to `xsdBaseDir`).
+ * @param xsdPath  - Path to the `.xsd` schema file (absolute or relative to `xsdBaseDir`),
+ *                   the schema text with its sibling documents (`InlineSchema`),
+ *                   or an already loaded `SchemaModel` (e.g. from `loadSchemaBundle`).
  * @param options  - Optional configuration.
  * @returns        A string containing the generated XML.
  *
- * @throws `XsdParseError`      if the XSD file cannot be read or parsed.
+ * @throws `XsdParseError`      if the XSD file cannot be read or parsed (or, with
+ *                              `failOnUnresolved`, has unresolved references).
  * @throws `XsdValidationError` if `strict: true` and the JSON violates schema constraints.
  * @throws `XsdMappingError`    if a structural mapping error occurs during XML generation.
+ * @throws `XsdSerializationError` if a value cannot be written in the lexical space of its type.
  *
  * @example
  * ```typescript
@@ -84,53 +64,46 @@ export interface ConverterOptions {
  */
 export async function convertJsonToXml(
   json: JsonObject,
-  xsdPath: string,
+  xsdPath: string | InlineSchema | SchemaModel,
   options: ConverterOptions = {},
 ): Promise<string> {
-  const {
-    prettyPrint = false,
-    xmlDeclaration = true,
-    xsdBaseDir,
-    encoding = 'UTF-8',
-    attributePrefix = '@',
-    textNodeKey = '#text',
-    strict = false,
-    rootElement: rootElementOverride,
-  } = options;
-
-  const rawModel = await parseXsd(xsdPath, xsdBaseDir);
-
-  // Determine effective root element (priority: explicit option > single-key JSON > schema default).
-  // When the JSON is wrapped under one key that is a known top-level element
-  // (e.g. { solicitacaoStatusAutorizacaoWS: { … } }), use that key as root.
-  let schemaModel = rawModel;
-  const jsonKeys = Object.keys(json);
-  if (rootElementOverride && rawModel.elements.has(rootElementOverride)) {
-    // Explicit option always wins.
-    if (rootElementOverride !== rawModel.rootElement) {
-      schemaModel = { ...rawModel, rootElement: rootElementOverride };
-    }
-  } else if (
-    jsonKeys.length === 1 &&
-    rawModel.elements.has(jsonKeys[0]) &&
-    jsonKeys[0] !== rawModel.rootElement
-  ) {
-    // Single JSON key that matches a known element — treat it as the wrapper.
-    schemaModel = { ...rawModel, rootElement: jsonKeys[0] };
-  }
-
-  const walker = new SchemaWalker(schemaModel);
+  const { xsdBaseDir, failOnUnresolved, resolver, ...convertOptions } = options;
+  const schema = await compileSchema(xsdPath, { xsdBaseDir, failOnUnresolved, resolver });
+  return schema.convert(json, convertOptions);
+}
 
-  if (strict) {
-    validateJson(json, walker, attributePrefix, textNodeKey);
-  }
+/**
+ * Options for `convertJsonToSoap`.
+ */
+export type SoapConverterOptions = ConverterOptions & SoapOptions;
 
-  return buildXml(json, walker, {
-    prettyPrint,
-    xmlDeclaration,
-    encoding,
-    attributePrefix,
-    textNodeKey,
-    targetNamespace: schemaModel.targetNamespace,
-  });
+/**
+ * Converts a JSON object to a SOAP request: the XML of `convertJsonToXml`
+ * inside a soap:Envelope / soap:Body, with optional soap:Header blocks. With a
+ * WSDL schema and `operation`, the SOAP version and soapAction come from the
+ * operation's binding.
+ *
+ * @param json     - The JSON data of the request (the Body content).
+ * @param xsdPath  - As in `convertJsonToXml`; typically a WSDL file.
+ * @param options  - `convertJsonToXml` options plus the envelope options.
+ * @returns        The envelope with the Content-Type and SOAPAction values to send it with.
+ *
+ * @throws Same as `convertJsonToXml`.
+ *
+ * @example
+ * ```typescript
+ * const { xml, httpHeaders } = await convertJsonToSoap(json, './tissSolicitacaoStatusAutorizacaoV4_03_00.wsdl', {
+ *   operation: 'tissSolicitacaoStatusAutorizacao_Operation',
+ * });
+ * await fetch(endpoint, { method: 'POST', headers: httpHeaders, body: xml });
+ * ```
+ */
+export async function convertJsonToSoap(
+  json: JsonObject,
+  xsdPath: string | InlineSchema | SchemaModel,
+  options: SoapConverterOptions = {},
+): Promise<SoapMessage> {
+  const { xsdBaseDir, failOnUnresolved, resolver, ...convertOptions } = options;
+  const schema = await compileSchema(xsdPath, { xsdBaseDir, failOnUnresolved, resolver });
+  return schema.convertToSoap(json, convertOptions);
 }
@@ -0,0 +1,47 @@
+// Entry point without Node.js dependencies (no filesystem, path or crypto
+// imports), for browsers and edge runtimes: schemas are given as text, read
+// through a resolver, or loaded from a bundle.
+
+export { loadSchema, CompiledSchema } from './schema.js';
+export type {
+  ConvertOptions,
+  NullHandling,
+  SoapConvertOptions,
+  TimezonePolicy,
+  ValidateOptions,
+} from './schema.js';
+export type { TransformContext, Transformers, ValueTransformer } from './transform.js';
+export type { KeyAliases, KeyMatching } from './keys.js';
+export { SOAP_ENVELOPE_NAMESPACES } from './soap.js';
+export type { SoapMessage, SoapOptions, SoapVersion } from './soap.js';
+
+export { parseSchema } from './xsd/schema-parser.js';
+export type { InlineSchema, SchemaParseOptions } from './xsd/schema-parser.js';
+export { memoryResolver } from './xsd/resolvers.js';
+export type { SchemaResolver, SchemaRequest, SchemaSource } from './xsd/resolvers.js';
+
+export { loadSchemaBundle, SCHEMA_BUNDLE_VERSION } from './bundle.js';
+export type { SchemaBundle } from './bundle.js';
+
+export type {
+  SchemaModel,
+  ElementDef,
+  AttributeDef,
+  SimpleTypeDef,
+  SchemaDiagnostic,
+  SchemaDiagnosticCode,
+  WsdlDefinitions,
+  WsdlMessage,
+  WsdlOperation,
+  WsdlPart,
+  WsdlSoapBinding,
+} from './xsd/types.js';
+export { SchemaWalker } from './xsd/walker.js';
+
+export {
+  XsdValidationError,
+  XsdMappingError,
+  XsdSerializationError,
+  XsdParseError,
+} from './validation/errors.js';
+export type { ValidationIssue } from './validation/errors.js';
@@ -1,5 +1,14 @@
-export { convertJsonToXml } from './converter.js';
-export type { ConverterOptions, SchemaModel } from './converter.js';
+export * from './core.js';
 
-export { XsdValidationError, XsdMappingError, XsdParseError } from './validation/errors.js';
-export type { ValidationIssue } from './validation/errors.js';
+export { convertJsonToXml, convertJsonToSoap } from './converter.js';
+export type { ConverterOptions, SoapConverterOptions } from './converter.js';
+
+export { compileSchema, clearSchemaCache } from './compiled-schema.js';
+export type { CompileOptions } from './compiled-schema.js';
+
+export { createSchemaBundle, isSchemaBundleStale } from './bundle-fs.js';
+
+export { parseXsd } from './xsd/parser.js';
+export type { ParseOptions } from './xsd/parser.js';
+export { fileSystemResolver, catalogResolver } from './xsd/resolvers-fs.js';
+export type { CatalogResolverOptions } from './xsd/resolvers-fs.js';
@@ -0,0 +1,206 @@
+import type { JsonObject, JsonValue } from './types.js';
+import { compileGlob, isJsonObject, lookupCI, stripIndexes } from './utils.js';
+import type { ValidationIssue } from './validation/errors.js';
+import type { ElementDef } from './xsd/types.js';
+import type { SchemaWalker } from './xsd/walker.js';
+
+/**
+ * How JSON keys are matched to the schema names of elements and attributes:
+ * - `'case-insensitive'`: `CNPJ` matches `cnpj`
+ * - `'normalized'`: also ignores `_` and `-`, so `numero_guia_prestador` and
+ *   `numero-guia-prestador` match `numeroGuiaPrestador`
+ * - `'accent-insensitive'`: also ignores diacritics, so `códigoTabela` matches `codigoTabela`
+ */
+export type KeyMatching = 'case-insensitive' | 'normalized' | 'accent-insensitive';
+
+/**
+ * Alias maps from JSON key to schema name (`@versao` for an attribute), keyed
+ * by the path glob of the element whose object holds the keys, e.g.
+ * `{ '$.loteGuias.guia': { numero_guia: 'numeroGuiaPrestador' } }`. Paths use
+ * schema names; `$` holds the alias of the root element.
+ */
+export type KeyAliases = Record<string, Record<string, string>>;
+
+/** Settings of `mapJsonKeys`. */
+export interface KeyMappingOptions {
+  attributePrefix: string;
+  textNodeKey: string;
+  keyMatching?: KeyMatching | KeyMatching[];
+  keyAliases?: KeyAliases;
+}
+
+/** The JSON with its keys renamed to schema names, and the ambiguous keys found. */
+export interface KeyMapping {
+  json: JsonObject;
+  issues: ValidationIssue[];
+}
+
+/** Schema names an object's keys may match: by name, and by normalized name. */
+interface Candidates {
+  names: Set<string>;
+  normalized: Map<string, string>;
+}
+
+interface MappingContext {
+  walker: SchemaWalker;
+  options: KeyMappingOptions;
+  normalize: (key: string) => string;
+  aliases: [RegExp, Record<string, string>][];
+  /** Candidates per (xsi:type-resolved) element, computed on first use. */
+  candidates: Map<ElementDef, Candidates>;
+  issues: ValidationIssue[];
+}
+
+/** The normal form of a key under the matching strategies given. */
+function normalizerFor(keyMatching: KeyMatching | KeyMatching[]): (key: string) => string {
+  const strategies = new Set(Array.isArray(keyMatching) ? keyMatching : [keyMatching]);
+  const separators = strategies.has('normalized');
+  const accents = strategies.has('accent-insensitive');
+  return (key) => {
+    let normal = key.toLowerCase();
+    if (separators) normal = normal.replace(/[_-]/g, '');
+    if (accents) normal = normal.normalize('NFD').replace(/\p{M}/gu, '');
+    return normal;
+  };
+}
+
+function candidatesOf(names: string[], ctx: MappingContext): Candidates {
+  const normalized = new Map<string, string>();
+  for (const name of names) {
+    const normal = ctx.normalize(name);
+    if (!normalized.has(normal)) normalized.set(normal, name);
+  }
+  return { names: new Set(names), normalized };
+}
+
+/** The alias maps of the globs matching a path, the first one given winning for each key. */
+function aliasesAt(path: string, ctx: MappingContext): Map<string, string> {
+  const aliases = new Map<string, string>();
+  if (ctx.aliases.length === 0) return aliases;
+  const stripped = stripIndexes(path);
+  for (const [glob, map] of ctx.aliases) {
+    if (!glob.test(stripped)) continue;
+    for (const [key, name] of Object.entries(map)) {
+      if (!aliases.has(key)) aliases.set(key, name);
+    }
+  }
+  return aliases;
+}
+
+/**
+ * The schema name a JSON key stands for: its alias, the key itself, or the
+ * candidate of the same normal form. Keys matching no candidate (xs:any
+ * content, unknown properties, the text node key) are kept.
+ */
+function schemaNameOf(
+  key: string,
+  candidates: Candidates,
+  aliases: Map<string, string>,
+  ctx: MappingContext,
+): string {
+  const alias = aliases.get(key);
+  if (alias !== undefined) return candidates.normalized.get(ctx.normalize(alias)) ?? alias;
+  if (key === ctx.options.textNodeKey || candidates.names.has(key)) return key;
+  return candidates.normalized.get(ctx.normalize(key)) ?? key;
+}
+
+/**
+ * Renames the keys of one object. When two keys stand for the same schema
+ * name, the first one is kept and the other reported.
+ */
+function renameKeys(
+  obj: JsonObject,
+  path: string,
+  candidates: Candidates,
+  ctx: MappingContext,
+  mapValue: (name: string, value: JsonValue) => JsonValue,
+): JsonObject {
+  const aliases = aliasesAt(path, ctx);
+  const keys = new Map<string, string>();
+  const result: JsonObject = {};
+  for (const [key, value] of Object.entries(obj)) {
+    const name = schemaNameOf(key, candidates, aliases, ctx);
+    const first = keys.get(name);
+    if (first !== undefined) {
+      ctx.issues.push({
+        path: `${path}.${name}`,
+        message: `JSON keys "${first}" and "${key}" both stand for "${name}"; give only one of them.`,
+      });
+      continue;
+    }
+    keys.set(name, key);
+    result[name] = mapValue(name, value);
+  }
+  return result;
+}
+
+function mapElement(
+  el: ElementDef,
+  value: JsonValue,
+  path: string,
+  ctx: MappingContext,
+): JsonValue {
+  if (Array.isArray(value)) {
+    return value.map((item, i) => mapElement(el, item, `${path}[${i}]`, ctx));
+  }
+  if (!isJsonObject(value)) return value;
+
+  const { walker, options } = ctx;
+  const xsiTypeKey = `${options.attributePrefix}xsi:type`;
+  const xsiType = lookupCI(value, xsiTypeKey);
+  const typed =
+    xsiType !== undefined && xsiType !== null
+      ? (walker.resolveXsiType(el, String(xsiType)) ?? el)
+      : el;
+  // Objects given for simple elements are reported by the validator as they are
+  if (!walker.resolveComplexTypeForElement(typed)) return value;
+
+  const children = new Map(walker.getChildElementsForElement(typed).map((c) => [c.name, c]));
+  let candidates = ctx.candidates.get(typed);
+  if (!candidates) {
+    const attributes = [
+      ...walker.getAttributesForElement(typed),
+      ...walker.getProhibitedAttributesForElement(typed),
+    ].map((a) => `${options.attributePrefix}${a.name}`);
+    candidates = candidatesOf([...children.keys(), ...attributes, xsiTypeKey], ctx);
+    ctx.candidates.set(typed, candidates);
+  }
+  return renameKeys(value, path, candidates, ctx, (name, child) => {
+    const childEl = children.get(name);
+    return childEl ? mapElement(childEl, child, `${path}.${name}`, ctx) : child;
+  });
+}
+
+/**
+ * Renames the keys of a JSON document to the schema names of the elements and
+ * attributes they stand for, following the key aliases and matching strategies
+ * given, so that validation and the builder see the names of the schema.
+ * The result is wrapped under the root element name. Two keys of an object
+ * standing for the same name are reported as issues, the first one being kept.
+ */
+export function mapJsonKeys(
+  json: JsonObject,
+  walker: SchemaWalker,
+  options: KeyMappingOptions,
+): KeyMapping {
+  const ctx: MappingContext = {
+    walker,
+    options,
+    normalize: normalizerFor(options.keyMatching ?? 'case-insensitive'),
+    aliases: Object.entries(options.keyAliases ?? {}).map(([glob, map]) => [
+      compileGlob(glob),
+      map,
+    ]),
+    candidates: new Map(),
+    issues: [],
+  };
+  const rootName = walker.schema.rootElement;
+  const rootEl = walker.lookupElement(rootName);
+  if (!rootEl) return { json, issues: [] };
+
+  // The JSON may be { rootName: { …fields } } or just { …fields }
+  const rootKeys = renameKeys(json, '$', candidatesOf([rootName], ctx), ctx, (_, v) => v);
+  const rootValue = rootKeys[rootName] !== undefined ? rootKeys[rootName] : json;
+  const mapped = mapElement(rootEl, rootValue, `$.${rootName}`, ctx);
+  return { json: { [rootName]: mapped }, issues: ctx.issues };
+}
@@ -0,0 +1,414 @@
+import { type KeyAliases, type KeyMappingOptions, type KeyMatching, mapJsonKeys } from './keys.js';
+import {
+  SOAP_ENVELOPE_NAMESPACES,
+  type SoapMessage,
+  type SoapOptions,
+  soapBinding,
+  soapMessage,
+} from './soap.js';
+import type { Transformers } from './transform.js';
+import type { JsonObject } from './types.js';
+import { type ValidationIssue, XsdMappingError, XsdValidationError } from './validation/errors.js';
+import { validateJson } from './validation/json-validator.js';
+import { type EnvelopeOptions, buildXml } from './xml/builder.js';
+import { type InlineSchema, type SchemaParseOptions, parseSchema } from './xsd/schema-parser.js';
+import type { SchemaModel } from './xsd/types.js';
+import { SchemaWalker } from './xsd/walker.js';
+import { partElementKey } from './xsd/wsdl.js';
+
+/**
+ * Options for `CompiledSchema.convert` — the `convertJsonToXml` options that
+ * apply per document (the schema itself is already loaded).
+ */
+export interface ConvertOptions {
+  /**
+   * Whether to pretty-print the output XML (indentation + newlines).
+   * @default false
+   */
+  prettyPrint?: boolean;
+  /**
+   * Whether to include an XML declaration (`<?xml version="1.0" encoding="..."?>`).
+   * @default true
+   */
+  xmlDeclaration?: boolean;
+  /**
+   * Encoding declared in the XML declaration.
+   * @default 'UTF-8'
+   */
+  encoding?: string;
+  /**
+   * Prefix used in JSON keys to indicate XML attributes.
+   * e.g. `{ "@id": "123" }` → `<element id="123"/>`
+   * @default '@'
+   */
+  attributePrefix?: string;
+  /**
+   * JSON key used to represent text content of an element.
+   * e.g. `{ "#text": "hello" }` → `<element>hello</element>`
+   * @default '#text'
+   */
+  textNodeKey?: string;
+  /**
+   * When `true`, validates the JSON against the XSD schema before generating XML.
+   * Throws `XsdValidationError` if any constraint is violated.
+   * @default false
+   */
+  strict?: boolean;
+  /**
+   * Override the root element name used for XML generation.
+   * Useful when the schema defines multiple top-level elements (e.g. WSDL) and
+   * the desired root cannot be inferred automatically from the JSON structure.
+   * @example `{ rootElement: 'solicitacaoStatusAutorizacaoWS' }`
+   */
+  rootElement?: string;
+  /**
+   * Name of a WSDL operation whose request is being built: the root element is
+   * the element of its input message part. Ignored when `rootElement` is set.
+   * @example `{ operation: 'tissSolicitacaoStatusAutorizacao_Operation' }`
+   */
+  operation?: string;
+  /**
+   * Prefixes to use for namespaces in the output, as prefix → namespace URI.
+   * Namespaces not listed keep the prefix declared in the schema (or get a
+   * generated `nsN`); listing the target namespace makes it prefixed instead
+   * of the default namespace. All declarations are written on the root element.
+   * @example `{ ans: 'http://www.ans.gov.br/padroes/tiss/schemas', ds: 'http://www.w3.org/2000/09/xmldsig#' }`
+   */
+  namespacePrefixes?: Record<string, string>;
+  /**
+   * Output for optional elements (minOccurs="0") given as `null`:
+   * - `'nil'`: `xsi:nil="true"` when the element is nillable, omitted otherwise
+   * - `'omit'`: always omitted
+   * - `'empty'`: always written as an empty element
+   *
+   * A `null` required element is written with `xsi:nil="true"` when nillable and
+   * as an empty element otherwise (which `strict` reports).
+   * @default 'nil'
+   */
+  nullHandling?: NullHandling;
+  /**
+   * Writes the elements the JSON omits that declare a `default="…"` (or
+   * `fixed="…"`) value, with that value. Omitted required elements with a fixed
+   * value, and attributes with a default or fixed value, are always written.
+   * @default false
+   */
+  elementDefaults?: boolean;
+  /**
+   * Throws an `XsdMappingError` when the JSON gives elements of more than one
+   * branch of an xs:choice, instead of writing them all. Choices inside a
+   * repeating group are not checked, as each occurrence may take another branch.
+   * @default false
+   */
+  exclusiveChoice?: boolean;
+  /**
+   * Timezone of the `Date` values written for xs:dateTime, xs:date, xs:time and
+   * the xs:g* types:
+   * - `'utc'`: in UTC, with the `Z` timezone
+   * - `'local'`: in the local time of the process, with its offset (e.g. `-03:00`)
+   * - `'none'`: in local time, without a timezone
+   * - an offset such as `'-03:00'`: in the time of that offset, with it
+   * @default 'utc'
+   */
+  timezone?: TimezonePolicy;
+  /**
+   * Called for values that are written but may not be what was meant: a
+   * `number` beyond `Number.MAX_SAFE_INTEGER` given for an integer type may
+   * already have lost precision (give such values as a `bigint` or a string).
+   */
+  onWarning?: (warning: ValidationIssue) => void;
+  /**
+   * Functions returning the value to write for an element text, attribute value
+   * or xs:simpleContent text, keyed by a path glob (`$.lote.guia.*.cnpj`, `*`
+   * for one step and `**` for any number of them), an element name (`cnpj`, or
+   * `@versao` for an attribute) or a prefixed type name (`ans:st_CNPJ`, `xs:date`).
+   * Path keys win over name keys, which win over type keys. Strict validation
+   * checks the transformed values.
+   */
+  transformers?: Transformers;
+  /**
+   * How JSON keys are matched to the names of elements and attributes, see
+   * `KeyMatching`. Several strategies may be combined, e.g.
+   * `['normalized', 'accent-insensitive']`. Two keys of an object matching the
+   * same name are reported (an `XsdMappingError` without `strict: true`).
+   * @default 'case-insensitive'
+   */
+  keyMatching?: KeyMatching | KeyMatching[];
+  /**
+   * JSON key → schema name maps, keyed by the path glob of the element holding
+   * the keys (e.g. `{ '$.**.guia': { numero_guia: 'numeroGuiaPrestador' } }`).
+   */
+  keyAliases?: KeyAliases;
+}
+
+/** How `null` values of optional elements are written, see `ConvertOptions.nullHandling`. */
+export type NullHandling = 'nil' | 'omit' | 'empty';
+
+/** How `Date` values are written, see `ConvertOptions.timezone`. */
+export type TimezonePolicy = 'utc' | 'local' | 'none' | `+${string}` | `-${string}`;
+
+/**
+ * Options for `CompiledSchema.convertToSoap`.
+ */
+export type SoapConvertOptions = ConvertOptions & SoapOptions;
+
+/**
+ * Options for `CompiledSchema.validate`.
+ */
+export type ValidateOptions = Pick<
+  ConvertOptions,
+  | 'attributePrefix'
+  | 'textNodeKey'
+  | 'rootElement'
+  | 'operation'
+  | 'elementDefaults'
+  | 'timezone'
+  | 'onWarning'
+  | 'transformers'
+  | 'keyMatching'
+  | 'keyAliases'
+>;
+
+/**
+ * A parsed schema ready to convert and validate any number of documents
+ * without reading the XSD files again.
+ */
+export class CompiledSchema {
+  /** Walkers by root element name, so each keeps its resolution caches between calls. */
+  private readonly walkers = new Map<string, SchemaWalker>();
+
+  constructor(
+    readonly model: SchemaModel,
+    /** Checks the schema's sources for changes; without it the schema is never stale. */
+    private readonly staleCheck?: () => Promise<boolean>,
+  ) {}
+
+  /** Walker for the schema's default root element. */
+  get walker(): SchemaWalker {
+    return this.walkerFor(this.model.rootElement);
+  }
+
+  /**
+   * Converts a JSON object to an XML string, exactly as `convertJsonToXml` does.
+   *
+   * @throws `XsdValidationError` if `strict: true` and the JSON violates schema constraints.
+   * @throws `XsdMappingError`    if a structural mapping error occurs during XML generation.
+   * @throws `XsdSerializationError` if a value cannot be written in the lexical space of its type.
+   */
+  convert(json: JsonObject, options: ConvertOptions = {}): string {
+    return this.build(json, options);
+  }
+
+  /**
+   * Converts a JSON object to a SOAP request, exactly as `convertJsonToSoap` does.
+   *
+   * @throws `XsdValidationError` if `strict: true` and the JSON (body or header
+   *                              blocks) violates schema constraints.
+   * @throws `XsdMappingError`    if a structural mapping error occurs during XML generation.
+   * @throws `XsdSerializationError` if a value cannot be written in the lexical space of its type.
+   */
+  convertToSoap(json: JsonObject, options: SoapConvertOptions = {}): SoapMessage {
+    const { soapVersion, soapHeader, envelopePrefix = 'soap', ...convertOptions } = options;
+    const operation = options.operation
+      ? this.model.wsdl?.operations.get(options.operation)
+      : undefined;
+    const { version, soapAction } = soapBinding(operation, soapVersion);
+    const xml = this.build(json, convertOptions, {
+      namespace: SOAP_ENVELOPE_NAMESPACES[version],
+      prefix: envelopePrefix,
+      header: soapHeader,
+    });
+    return soapMessage(xml, version, soapAction, convertOptions.encoding ?? 'UTF-8');
+  }
+
+  /**
+   * Validates a JSON object against the schema, as `strict: true` does, and
+   * returns the issues found (an empty array when the JSON is valid).
+   */
+  validate(json: JsonObject, options: ValidateOptions = {}): ValidationIssue[] {
+    const {
+      attributePrefix = '@',
+      textNodeKey = '#text',
+      elementDefaults = false,
+      timezone = 'utc',
+      onWarning,
+      transformers,
+      keyMatching,
+      keyAliases,
+    } = options;
+    const walker = this.walkerFor(this.selectRoot(json, options));
+    const keys = { attributePrefix, textNodeKey, keyMatching, keyAliases };
+    const mapping = mapJsonKeys(json, walker, keys);
+    try {
+      validateJson(mapping.json, walker, {
+        attributePrefix,
+        textNodeKey,
+        elementDefaults,
+        timezone,
+        onWarning,
+        transformers,
+      });
+    } catch (err) {
+      if (err instanceof XsdValidationError) return [...mapping.issues, ...err.issues];
+      throw err;
+    }
+    return mapping.issues;
+  }
+
+  /** True when a schema file has been modified (or created or deleted) since it was read. */
+  async isStale(): Promise<boolean> {
+    return this.staleCheck ? this.staleCheck() : false;
+  }
+
+  private build(json: JsonObject, options: ConvertOptions, envelope?: EnvelopeOptions): string {
+    const {
+      prettyPrint = false,
+      xmlDeclaration = true,
+      encoding = 'UTF-8',
+      attributePrefix = '@',
+      textNodeKey = '#text',
+      strict = false,
+      namespacePrefixes,
+      nullHandling = 'nil',
+      elementDefaults = false,
+      exclusiveChoice = false,
+      timezone = 'utc',
+      onWarning,
+      transformers,
+      keyMatching,
+      keyAliases,
+    } = options;
+
+    const root = this.selectRoot(json, options);
+    const walker = this.walkerFor(root);
+
+    if (strict) {
+      // Warnings are reported once, by the builder
+      const checked = { ...options, onWarning: undefined };
+      const issues = this.validate(json, checked);
+      // Header blocks declared in the schema are checked against their declaration
+      for (const [key, value] of Object.entries(envelope?.header ?? {})) {
+        if (!this.model.elements.has(key)) continue;
+        issues.push(...this.validate({ [key]: value }, { ...checked, rootElement: key }));
+      }
+      if (issues.length > 0) throw new XsdValidationError(issues);
+    }
+
+    // The builder is given the keys of the schema, header blocks included
+    const keys = { attributePrefix, textNodeKey, keyMatching, keyAliases };
+    const mapping = mapJsonKeys(json, walker, keys);
+    const ambiguous = [...mapping.issues];
+    const header = envelope?.header && this.mapHeader(envelope.header, keys, ambiguous);
+    if (ambiguous.length > 0) throw new XsdMappingError(ambiguous[0].path, ambiguous[0].message);
+
+    return buildXml(mapping.json, walker, {
+      prettyPrint,
+      xmlDeclaration,
+      encoding,
+      attributePrefix,
+      textNodeKey,
+      // The root's own namespace becomes the default one: a WSDL operation's
+      // request element may come from any of its schemas
+      targetNamespace: this.model.elements.get(root)?.namespace ?? this.model.targetNamespace,
+      namespacePrefixes,
+      nullHandling,
+      elementDefaults,
+      exclusiveChoice,
+      timezone,
+      onWarning,
+      transformers,
+      envelope: envelope && { ...envelope, header },
+    });
+  }
+
+  /** Renames the keys of the header blocks declared in the schema, see `mapJsonKeys`. */
+  private mapHeader(
+    header: JsonObject,
+    keys: KeyMappingOptions,
+    issues: ValidationIssue[],
+  ): JsonObject {
+    const mapped: JsonObject = {};
+    for (const [key, value] of Object.entries(header)) {
+      if (!this.model.elements.has(key)) {
+        mapped[key] = value;
+        continue;
+      }
+      const block = mapJsonKeys({ [key]: value }, this.walkerFor(key), keys);
+      issues.push(...block.issues);
+      mapped[key] = block.json[key];
+    }
+    return mapped;
+  }
+
+  /**
+   * Determines the effective root element (priority: explicit option > WSDL
+   * operation > single-key JSON > schema default). When the JSON is wrapped under
+   * one key that is a known top-level element (e.g. { solicitacaoStatusAutorizacaoWS: { … } }),
+   * that key is the root.
+   */
+  private selectRoot(json: JsonObject, options: ValidateOptions): string {
+    const { rootElement, operation } = options;
+    if (rootElement && this.model.elements.has(rootElement)) return rootElement;
+    if (operation) return this.operationRoot(operation);
+    const jsonKeys = Object.keys(json);
+    if (jsonKeys.length === 1 && this.model.elements.has(jsonKeys[0])) return jsonKeys[0];
+    return this.model.rootElement;
+  }
+
+  /** The element of the input message of a WSDL operation. */
+  private operationRoot(name: string): string {
+    const { wsdl } = this.model;
+    const operation = wsdl?.operations.get(name);
+    if (!operation) {
+      throw new XsdMappingError(
+        name,
+        wsdl
+          ? `Unknown WSDL operation (available: ${[...wsdl.operations.keys()].join(', ')}).`
+          : 'The schema was not read from a WSDL document, so it has no operations.',
+      );
+    }
+    const part = operation.input?.parts.find((p) => p.element);
+    const key = part && partElementKey(this.model, part);
+    if (!key) {
+      throw new XsdMappingError(
+        name,
+        'The input message of the operation has no element part declared in the schema.',
+      );
+    }
+    return key;
+  }
+
+  private walkerFor(rootElement: string): SchemaWalker {
+    let walker = this.walkers.get(rootElement);
+    if (!walker) {
+      const model =
+        rootElement === this.model.rootElement ? this.model : { ...this.model, rootElement };
+      walker = new SchemaWalker(model);
+      this.walkers.set(rootElement, walker);
+    }
+    return walker;
+  }
+}
+
+/**
+ * Parses a schema for reuse across conversions without touching the
+ * filesystem, so it also runs in browsers and edge runtimes: the schema is
+ * given as text (`InlineSchema`), as a location read by `options.resolver`, or
+ * as an already loaded `SchemaModel` (e.g. from `loadSchemaBundle`).
+ *
+ * @throws `XsdParseError` if the schema cannot be read or parsed.
+ *
+ * @example
+ * ```typescript
+ * import { loadSchema } from 'json-xsd-to-xml/core';
+ *
+ * const schema = await loadSchema({ content: xsdText, documents: { 'types.xsd': typesText } });
+ * const xml = schema.convert(json);
+ * ```
+ */
+export async function loadSchema(
+  schema: string | InlineSchema | SchemaModel,
+  options: SchemaParseOptions = {},
+): Promise<CompiledSchema> {
+  if (typeof schema !== 'string' && !('content' in schema)) return new CompiledSchema(schema);
+  return new CompiledSchema(await parseSchema(schema, options));
+}
@@ -0,0 +1,90 @@
+import type { JsonObject } from './types.js';
+import type { WsdlOperation } from './xsd/types.js';
+
+/** Namespaces of the SOAP envelope, by SOAP version. */
+export const SOAP_ENVELOPE_NAMESPACES = {
+  '1.1': 'http://schemas.xmlsoap.org/soap/envelope/',
+  '1.2': 'http://www.w3.org/2003/05/soap-envelope',
+} as const;
+
+export type SoapVersion = keyof typeof SOAP_ENVELOPE_NAMESPACES;
+
+/**
+ * Envelope options of `convertJsonToSoap` and `CompiledSchema.convertToSoap`.
+ */
+export interface SoapOptions {
+  /**
+   * SOAP version of the envelope. Defaults to the version of the first SOAP
+   * binding of `operation` (WSDL schemas), or 1.1.
+   */
+  soapVersion?: SoapVersion;
+  /**
+   * soap:Header blocks, keyed by element name. Global elements of the schema
+   * are built (and validated with `strict`) from their declaration; any other
+   * key is written as plain XML, like xs:any content.
+   * @example `{ 'wsse:Security': { '@xmlns:wsse': '…', 'wsse:UsernameToken': { … } } }`
+   */
+  soapHeader?: JsonObject;
+  /**
+   * Prefix of the Envelope, Header and Body elements.
+   * @default 'soap'
+   */
+  envelopePrefix?: string;
+}
+
+/**
+ * A SOAP request built by `convertJsonToSoap`, with the HTTP header values to send it with.
+ */
+export interface SoapMessage {
+  /** The soap:Envelope document. */
+  xml: string;
+  soapVersion: SoapVersion;
+  /** soapAction of the operation's binding for `soapVersion`, when converting for a WSDL operation. */
+  soapAction?: string;
+  /**
+   * Content-Type of the request: `text/xml` for SOAP 1.1, `application/soap+xml`
+   * (with the `action` parameter when there is a soapAction) for SOAP 1.2.
+   */
+  contentType: string;
+  /** HTTP headers to send: Content-Type, and for SOAP 1.1 the (quoted) SOAPAction. */
+  httpHeaders: Record<string, string>;
+}
+
+/** The SOAP version and soapAction to use for a request of `operation`. */
+export function soapBinding(
+  operation: WsdlOperation | undefined,
+  soapVersion: SoapVersion | undefined,
+): { version: SoapVersion; soapAction?: string } {
+  const version = soapVersion ?? operation?.bindings[0]?.version ?? '1.1';
+  const binding = operation?.bindings.find((b) => b.version === version);
+  return { version, soapAction: binding?.soapAction };
+}
+
+/** Wraps a built envelope with the HTTP header values of its SOAP version. */
+export function soapMessage(
+  xml: string,
+  version: SoapVersion,
+  soapAction: string | undefined,
+  encoding: string,
+): SoapMessage {
+  if (version === '1.1') {
+    const contentType = `text/xml; charset=${encoding}`;
+    return {
+      xml,
+      soapVersion: version,
+      soapAction,
+      contentType,
+      // SOAP 1.1 requires the header even without an action ("" = intent in the Body)
+      httpHeaders: { 'Content-Type': contentType, SOAPAction: `"${soapAction ?? ''}"` },
+    };
+  }
+  const action = soapAction ? `; action="${soapAction}"` : '';
+  const contentType = `application/soap+xml; charset=${encoding}${action}`;
+  return {
+    xml,
+    soapVersion: version,
+    soapAction,
+    contentType,
+    httpHeaders: { 'Content-Type': contentType },
+  };
+}
@@ -0,0 +1,113 @@
+import type { JsonValue } from './types.js';
+import { compileGlob, localName, stripIndexes } from './utils.js';
+import type { AttributeDef, ElementDef, SimpleTypeDef } from './xsd/types.js';
+
+/**
+ * Where a value passed to a transformer sits in the schema.
+ */
+export interface TransformContext {
+  /** JSON path of the value, e.g. `$.lote.guia[0].cnpj` (`…@versao` for an attribute). */
+  path: string;
+  /** The element holding the value (retyped by xsi:type when the JSON names one). */
+  element: ElementDef;
+  /** The attribute declaration, when the value is an attribute value. */
+  attribute?: AttributeDef;
+  /**
+   * Resolved simple type of the value, flattened to its built-in base. A
+   * built-in type is named after itself (e.g. "xs:date").
+   */
+  type: SimpleTypeDef;
+  /** Type name as declared in the schema (e.g. "ans:st_CNPJ"); undefined for anonymous types. */
+  typeName?: string;
+}
+
+/** Returns the value to serialize (and validate) in place of the JSON value. */
+export type ValueTransformer = (value: JsonValue, context: TransformContext) => JsonValue;
+
+/**
+ * Value transformers, keyed by:
+ * - a path glob starting with `$` (e.g. `$.lote.guia.*.cnpj`, `$.**.valor`)
+ * - an element name, or an attribute name with the attribute prefix (`@versao`)
+ * - a prefixed type name: declared (`ans:st_CNPJ`, matched by local name) or
+ *   built-in (`xs:decimal`, also matching the types derived from it)
+ */
+export type Transformers = Record<string, ValueTransformer>;
+
+interface TransformerIndex {
+  paths: [RegExp, ValueTransformer][];
+  /** By lowercased element or attribute name. */
+  names: Map<string, ValueTransformer>;
+  /** By local name of a declared type. */
+  types: Map<string, ValueTransformer>;
+  /** By built-in type, e.g. "xs:date". */
+  builtins: Map<string, ValueTransformer>;
+}
+
+/** A type key: a prefixed name (`xs:date`, `ans:st_CNPJ`), not an attribute (`@xml:lang`). */
+const TYPE_KEY = /^[A-Za-z_][\w.-]*:/;
+const XSD_PREFIX = /^xsd?:/;
+
+const indexes = new WeakMap<Transformers, TransformerIndex>();
+
+function indexOf(transformers: Transformers): TransformerIndex {
+  let index = indexes.get(transformers);
+  if (index) return index;
+  index = { paths: [], names: new Map(), types: new Map(), builtins: new Map() };
+  // Where keys collide (`Cnpj` and `cnpj`, `xs:date` and `xsd:date`) the first one given wins
+  const add = (map: Map<string, ValueTransformer>, key: string, transformer: ValueTransformer) => {
+    if (!map.has(key)) map.set(key, transformer);
+  };
+  for (const [key, transformer] of Object.entries(transformers)) {
+    if (key.startsWith('$')) {
+      index.paths.push([compileGlob(key), transformer]);
+    } else if (XSD_PREFIX.test(key)) {
+      add(index.builtins, `xs:${localName(key)}`, transformer);
+    } else if (TYPE_KEY.test(key)) {
+      add(index.types, localName(key), transformer);
+    } else {
+      add(index.names, key.toLowerCase(), transformer);
+    }
+  }
+  indexes.set(transformers, index);
+  return index;
+}
+
+/**
+ * The transformer for a value: the first path glob matching its path, else the
+ * one for its element or attribute name, else the one for its declared type,
+ * else the one for its built-in base type. Name keys never match types.
+ */
+function transformerFor(
+  transformers: Transformers,
+  context: TransformContext,
+  attributePrefix: string,
+): ValueTransformer | undefined {
+  const index = indexOf(transformers);
+  const path = stripIndexes(context.path);
+  const byPath = index.paths.find(([glob]) => glob.test(path));
+  if (byPath) return byPath[1];
+  const name = context.attribute
+    ? `${attributePrefix}${context.attribute.name}`
+    : context.element.name;
+  const byName = index.names.get(name.toLowerCase());
+  if (byName) return byName;
+  const { type, typeName } = context;
+  const declared =
+    typeName && type.name !== type.base ? index.types.get(localName(typeName)) : undefined;
+  return declared ?? index.builtins.get(type.base);
+}
+
+/**
+ * Applies the matching transformer (if any) to a simple value: element text,
+ * attribute value or xs:simpleContent text. `null` values are not transformed.
+ */
+export function applyTransformer(
+  transformers: Transformers | undefined,
+  value: JsonValue,
+  context: TransformContext,
+  attributePrefix: string,
+): JsonValue {
+  if (!transformers || value === null) return value;
+  const transformer = transformerFor(transformers, context, attributePrefix);
+  return transformer ? transformer(value, context) : value;
+}
@@ -1,5 +1,7 @@
 // Recursive JSON types — defined via interface to avoid circular type alias errors.
-export type JsonPrimitive = string | number | boolean | null;
+// Date, Uint8Array (e.g. Buffer) and bigint values are written in the lexical
+// form of their XSD type (xs:dateTime, xs:base64Binary, xs:long…), see src/xml/lexical.ts.
+export type JsonPrimitive = string | number | bigint | boolean | null | Date | Uint8Array;
 
 // Declared as an interface to break the circular type alias restriction.
 export interface JsonObject {
@@ -31,6 +31,16 @@ export function lookupCI(obj: JsonObject, name: string): JsonValue | undefined {
   return undefined;
 }
 
+/**
+ * Strips the namespace prefix from a qualified name.
+ * e.g. "ans:cabecalhoTransacao" → "cabecalhoTransacao"
+ *       "cabecalhoTransacao"      → "cabecalhoTransacao"
+ */
+export function localName(name: string): string {
+  const i = name.indexOf(':');
+  return i >= 0 ? name.slice(i + 1) : name;
+}
+
 /**
  * Returns a Set of the lowercased versions of the provided names.
  * Useful for O(1) case-insensitive membership checks.
@@ -40,3 +50,39 @@ export function lowerSet(names: Iterable<string>): Set<string> {
   for (const n of names) s.add(n.toLowerCase());
   return s;
 }
+
+/**
+ * True for a JSON object, i.e. element content with attributes or children:
+ * not null, an array, or a Date or binary scalar.
+ */
+export function isJsonObject(value: JsonValue | undefined): value is JsonObject {
+  return (
+    value !== null &&
+    typeof value === 'object' &&
+    !Array.isArray(value) &&
+    !(value instanceof Date) &&
+    !(value instanceof Uint8Array)
+  );
+}
+
+/**
+ * Translates a JSON path glob into an anchored, case-insensitive RegExp: `*`
+ * stands for one step, `**` for any number of them. Array indexes are not part
+ * of the paths matched (see `stripIndexes`).
+ */
+export function compileGlob(glob: string): RegExp {
+  const source = stripIndexes(glob.replace(/\[\*\]/g, ''))
+    .split(/(\*\*|\*)/)
+    .map((part) => {
+      if (part === '**') return '.*';
+      if (part === '*') return '[^.]*';
+      return part.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+  return new RegExp(`^${source}$`, 'i');
+}
+
+/** Removes the array indexes of a JSON path: `$.lote.guia[2].valor` → `$.lote.guia.valor`. */
+export function stripIndexes(path: string): string {
+  return path.replace(/\[\d+\]/g, '');
+}
@@ -1,9 +1,28 @@
+import type { AttributeDef, ElementDef, SchemaDiagnostic } from '../xsd/types.js';
+import type { SchemaWalker } from '../xsd/walker.js';
+
 /**
  * Represents a single validation issue found in the JSON input.
  */
 export interface ValidationIssue {
   path: string;
   message: string;
+  /**
+   * xs:documentation of the element or attribute the issue is about (or of its
+   * type), when the schema documents it.
+   */
+  documentation?: string;
+}
+
+/** An issue about `def`, carrying its xs:documentation when the schema has any. */
+export function issueFor(
+  walker: SchemaWalker,
+  def: ElementDef | AttributeDef,
+  path: string,
+  message: string,
+): ValidationIssue {
+  const documentation = walker.getDocumentation(def);
+  return documentation ? { path, message, documentation } : { path, message };
 }
 
 /**
@@ -37,16 +56,40 @@ export class XsdMappingError extends Error {
 }
 
 /**
- * Thrown when the XSD file cannot be read or parsed.
+ * Thrown when a value cannot be written in the lexical space of its XSD type,
+ * e.g. a fractional number for an xs:int or a Date for an xs:boolean.
+ */
+export class XsdSerializationError extends Error {
+  public readonly path: string;
+  /** Built-in type the value was to be written as, e.g. "xs:int". */
+  public readonly typeName: string;
+  /** The problem, without the path. */
+  public readonly reason: string;
+
+  constructor(path: string, typeName: string, reason: string) {
+    super(`XSD serialization error at [${path}]: ${reason}`);
+    this.name = 'XsdSerializationError';
+    this.path = path;
+    this.typeName = typeName;
+    this.reason = reason;
+    Object.setPrototypeOf(this, XsdSerializationError.prototype);
+  }
+}
+
+/**
+ * Thrown when the XSD file cannot be read or parsed, or when it has unresolved
+ * references and `failOnUnresolved` is set (see `diagnostics`).
  */
 export class XsdParseError extends Error {
   // Explicit declaration needed as Error.cause requires lib ES2022+.
   public readonly cause?: unknown;
+  public readonly diagnostics: SchemaDiagnostic[];
 
-  constructor(message: string, cause?: unknown) {
+  constructor(message: string, cause?: unknown, diagnostics: SchemaDiagnostic[] = []) {
     super(message);
     this.name = 'XsdParseError';
     this.cause = cause;
+    this.diagnostics = diagnostics;
     Object.setPrototypeOf(this, XsdParseError.prototype);
   }
 }
@@ -0,0 +1,416 @@
+import type { SimpleTypeDef, SimpleTypeFacets } from '../xsd/types.js';
+import { type CodePointRange, UNICODE_BLOCKS } from './unicode-blocks.js';
+
+// Built-in bases whose values are compared numerically by the range facets.
+const NUMERIC_BASES = new Set([
+  'xs:decimal',
+  'xs:integer',
+  'xs:long',
+  'xs:int',
+  'xs:short',
+  'xs:byte',
+  'xs:positiveInteger',
+  'xs:nonNegativeInteger',
+  'xs:negativeInteger',
+  'xs:nonPositiveInteger',
+  'xs:unsignedLong',
+  'xs:unsignedInt',
+  'xs:unsignedShort',
+  'xs:unsignedByte',
+  'xs:float',
+  'xs:double',
+]);
+
+// Built-in bases whose values are compared as points in time by the range facets.
+const TEMPORAL_BASES = new Set(['xs:date', 'xs:dateTime', 'xs:time', 'xs:gYear', 'xs:gYearMonth']);
+
+// Lexical space of the built-in types whose values are commonly malformed in
+// JSON input. Other built-ins accept any string.
+const TZ = '(?:Z|[+-]\\d{2}:\\d{2})?';
+const LEXICAL_PATTERNS: Record<string, RegExp> = {
+  'xs:boolean': /^(?:true|false|1|0)$/,
+  'xs:decimal': /^[+-]?(?:\d+(?:\.\d*)?|\.\d+)$/,
+  'xs:float': /^(?:[+-]?(?:\d+(?:\.\d*)?|\.\d+)(?:[eE][+-]?\d+)?|[+-]?INF|NaN)$/,
+  'xs:double': /^(?:[+-]?(?:\d+(?:\.\d*)?|\.\d+)(?:[eE][+-]?\d+)?|[+-]?INF|NaN)$/,
+  'xs:date': new RegExp(`^-?\\d{4,}-\\d{2}-\\d{2}${TZ}$`),
+  'xs:dateTime': new RegExp(`^-?\\d{4,}-\\d{2}-\\d{2}T\\d{2}:\\d{2}:\\d{2}(?:\\.\\d+)?${TZ}$`),
+  'xs:time': new RegExp(`^\\d{2}:\\d{2}:\\d{2}(?:\\.\\d+)?${TZ}$`),
+  'xs:gYear': new RegExp(`^-?\\d{4,}${TZ}$`),
+  'xs:gYearMonth': new RegExp(`^-?\\d{4,}-\\d{2}${TZ}$`),
+};
+
+// Value bounds of the built-in integer types (undefined: unbounded on that side).
+const INTEGER_BOUNDS: Record<string, [bigint | undefined, bigint | undefined]> = {
+  'xs:integer': [undefined, undefined],
+  'xs:long': [-(2n ** 63n), 2n ** 63n - 1n],
+  'xs:int': [-(2n ** 31n), 2n ** 31n - 1n],
+  'xs:short': [-32768n, 32767n],
+  'xs:byte': [-128n, 127n],
+  'xs:nonNegativeInteger': [0n, undefined],
+  'xs:positiveInteger': [1n, undefined],
+  'xs:nonPositiveInteger': [undefined, 0n],
+  'xs:negativeInteger': [undefined, -1n],
+  'xs:unsignedLong': [0n, 2n ** 64n - 1n],
+  'xs:unsignedInt': [0n, 2n ** 32n - 1n],
+  'xs:unsignedShort': [0n, 65535n],
+  'xs:unsignedByte': [0n, 255n],
+};
+
+// Enumerations longer than this are truncated in error messages (TISS domains
+// routinely list hundreds of codes).
+const MAX_LISTED_ENUM_VALUES = 10;
+
+const patternCache = new Map<string, RegExp | null>();
+
+// Approximations of the XML name characters of `\i` (name start) and `\c`.
+const NAME_START_CHARS: CodePointRange[] = [
+  [0x3a, 0x3a],
+  [0x41, 0x5a],
+  [0x5f, 0x5f],
+  [0x61, 0x7a],
+];
+const NAME_CHARS: CodePointRange[] = [
+  [0x2d, 0x2e],
+  [0x30, 0x3a],
+  [0x41, 0x5a],
+  [0x5f, 0x5f],
+  [0x61, 0x7a],
+];
+
+/** The code points outside the given (sorted, disjoint) ranges. */
+function complementRanges(ranges: CodePointRange[]): CodePointRange[] {
+  const result: CodePointRange[] = [];
+  let next = 0;
+  for (const [lo, hi] of ranges) {
+    if (lo > next) result.push([next, lo - 1]);
+    next = hi + 1;
+  }
+  if (next <= 0x10ffff) result.push([next, 0x10ffff]);
+  return result;
+}
+
+/** The members of a character class (without its brackets) matching the ranges. */
+function classMembers(ranges: CodePointRange[]): string {
+  const char = (cp: number) => `\\u{${cp.toString(16)}}`;
+  return ranges.map(([lo, hi]) => (lo === hi ? char(lo) : `${char(lo)}-${char(hi)}`)).join('');
+}
+
+/**
+ * Rewrites the escapes of an XSD regular expression that JavaScript lacks or
+ * rejects with the `u` flag: the `\i`/`\c` name characters and `\p{Is<Block>}`
+ * Unicode blocks become code point ranges (complemented for `\I`, `\C` and
+ * `\P{…}`), and `\-` outside a class a plain `-`. Returns undefined for an
+ * unknown block.
+ */
+function translatePattern(pattern: string): string | undefined {
+  let source = '';
+  let inClass = false;
+  for (let i = 0; i < pattern.length; i++) {
+    const ch = pattern[i];
+    if (ch !== '\\') {
+      if (ch === '[') inClass = true;
+      else if (ch === ']') inClass = false;
+      source += ch;
+      continue;
+    }
+    const next = pattern[i + 1] ?? '';
+    let ranges: CodePointRange[] | undefined;
+    if (/[iIcC]/.test(next)) {
+      ranges = next.toLowerCase() === 'i' ? NAME_START_CHARS : NAME_CHARS;
+      i++;
+    } else if (/[pP]/.test(next) && pattern.startsWith('{Is', i + 2)) {
+      const end = pattern.indexOf('}', i);
+      ranges = end < 0 ? undefined : UNICODE_BLOCKS[pattern.slice(i + 5, end)];
+      if (!ranges) return undefined;
+      i = end;
+    } else {
+      source += next === '-' && !inClass ? '-' : ch + next;
+      i++;
+      continue;
+    }
+    const negated = next === next.toUpperCase();
+    if (inClass) source += classMembers(negated ? complementRanges(ranges) : ranges);
+    else source += `[${negated ? '^' : ''}${classMembers(ranges)}]`;
+  }
+  return source;
+}
+
+/**
+ * Translates an XSD regular expression into an anchored JavaScript RegExp.
+ *
+ * XSD patterns are implicitly anchored, and compiled with the `u` flag so that
+ * `\p{…}` categories keep their meaning (see `translatePattern`). Returns
+ * `null` when the expression cannot be compiled (e.g. it uses character class
+ * subtraction): such a facet is skipped rather than rejecting every value, and
+ * reported by an UNSUPPORTED_PATTERN diagnostic when the schema is loaded.
+ */
+export function compilePattern(pattern: string): RegExp | null {
+  const cached = patternCache.get(pattern);
+  if (cached !== undefined) return cached;
+  const source = translatePattern(pattern);
+  let compiled: RegExp | null = null;
+  try {
+    if (source !== undefined) compiled = new RegExp(`^(?:${source})$`, 'u');
+  } catch {
+    // Not expressible as a JavaScript RegExp
+  }
+  patternCache.set(pattern, compiled);
+  return compiled;
+}
+
+/**
+ * Applies the xs:whiteSpace normalisation in effect for the type.
+ * Every built-in type other than xs:string and xs:normalizedString collapses.
+ */
+function normalizeWhiteSpace(value: string, st: SimpleTypeDef): string {
+  let mode = st.facets.whiteSpace;
+  if (!mode) {
+    if (st.base === 'xs:string') mode = 'preserve';
+    else if (st.base === 'xs:normalizedString') mode = 'replace';
+    else mode = 'collapse';
+  }
+  if (mode === 'preserve') return value;
+  const replaced = value.replace(/[\t\n\r]/g, ' ');
+  return mode === 'replace' ? replaced : replaced.replace(/ +/g, ' ').trim();
+}
+
+/** Length of a value in the units xs:length/xs:minLength/xs:maxLength count. */
+function valueLength(value: string, base: string): number {
+  if (base === 'xs:hexBinary') return Math.floor(value.length / 2);
+  if (base === 'xs:base64Binary') {
+    const clean = value.replace(/\s/g, '');
+    const padding = clean.endsWith('==') ? 2 : clean.endsWith('=') ? 1 : 0;
+    return Math.floor((clean.length * 3) / 4) - padding;
+  }
+  return [...value].length;
+}
+
+/** Counts total and fraction digits of a decimal lexical value, ignoring insignificant zeros. */
+function countDigits(value: string): { total: number; fraction: number } | undefined {
+  const match = /^[+-]?(\d*)(?:\.(\d*))?$/.exec(value);
+  if (!match) return undefined;
+  const intPart = match[1].replace(/^0+/, '');
+  const fracPart = (match[2] ?? '').replace(/0+$/, '');
+  return { total: Math.max(intPart.length + fracPart.length, 1), fraction: fracPart.length };
+}
+
+/**
+ * Compares two lexical values according to the base type's ordering.
+ * Returns undefined when the values are not comparable (unordered type or
+ * unparsable value) — the range facets are then skipped.
+ */
+function compareValues(a: string, b: string, base: string): number | undefined {
+  if (base !== 'xs:float' && base !== 'xs:double' && NUMERIC_BASES.has(base)) {
+    return compareDecimals(a, b);
+  }
+  if (NUMERIC_BASES.has(base)) {
+    const x = Number(a);
+    const y = Number(b);
+    if (Number.isNaN(x) || Number.isNaN(y)) return undefined;
+    return x - y;
+  }
+  if (TEMPORAL_BASES.has(base)) {
+    const toTime = (v: string) => Date.parse(base === 'xs:time' ? `1970-01-01T${v}` : v);
+    const x = toTime(a);
+    const y = toTime(b);
+    if (Number.isNaN(x) || Number.isNaN(y)) return undefined;
+    return x - y;
+  }
+  return undefined;
+}
+
+function describeEnumeration(values: string[]): string {
+  const listed = values.slice(0, MAX_LISTED_ENUM_VALUES).map((v) => `"${v}"`);
+  const more = values.length - listed.length;
+  return more > 0 ? `${listed.join(', ')} … (${more} more)` : listed.join(', ');
+}
+
+/**
+ * Compares two xs:decimal (or integer) lexical values exactly, digit by digit,
+ * so that amounts and xs:long identifiers beyond 2^53 are not rounded.
+ * Returns undefined when either is not a decimal.
+ */
+function compareDecimals(a: string, b: string): number | undefined {
+  const parse = (value: string) => {
+    const match = /^([+-]?)(\d*)(?:\.(\d*))?$/.exec(value.trim());
+    if (!match || (match[2] === '' && !match[3])) return undefined;
+    const int = match[2].replace(/^0+/, '');
+    const fraction = (match[3] ?? '').replace(/0+$/, '');
+    const zero = int === '' && fraction === '';
+    return { negative: match[1] === '-' && !zero, int, fraction };
+  };
+  const x = parse(a);
+  const y = parse(b);
+  if (!x || !y) return undefined;
+  if (x.negative !== y.negative) return x.negative ? -1 : 1;
+  const sign = x.negative ? -1 : 1;
+  if (x.int.length !== y.int.length) return sign * (x.int.length - y.int.length);
+  const width = Math.max(x.fraction.length, y.fraction.length);
+  const digitsX = x.int + x.fraction.padEnd(width, '0');
+  const digitsY = y.int + y.fraction.padEnd(width, '0');
+  return digitsX === digitsY ? 0 : sign * (digitsX < digitsY ? -1 : 1);
+}
+
+/** Returns false when the value lies outside the lexical (or value) space of a built-in type. */
+function isValidBuiltinValue(lexical: string, base: string): boolean {
+  const bounds = INTEGER_BOUNDS[base];
+  if (bounds) {
+    if (!/^[+-]?\d+$/.test(lexical)) return false;
+    const n = BigInt(lexical);
+    return (
+      (bounds[0] === undefined || n >= bounds[0]) && (bounds[1] === undefined || n <= bounds[1])
+    );
+  }
+  const pattern = LEXICAL_PATTERNS[base];
+  return pattern ? pattern.test(lexical) : true;
+}
+
+/** A JSON scalar, or the items of an xs:list value given as a JSON array. */
+export type FacetValue = string | number | boolean | (string | number | boolean)[];
+
+/** Splits an xs:list value into its items (JSON array or whitespace-separated string). */
+function listItems(value: FacetValue): string[] {
+  if (Array.isArray(value)) return value.map(String);
+  return String(value).split(/\s+/).filter(Boolean);
+}
+
+function describeType(st: SimpleTypeDef): string {
+  return st.name ? `type "${st.name}"` : 'the anonymous simple type';
+}
+
+/** Checks the facets that constrain the lexical form: enumeration and pattern. */
+function checkLexicalFacets(lexical: string, st: SimpleTypeDef, messages: string[]): void {
+  const { enumeration, patterns } = st.facets;
+  const typeLabel = describeType(st);
+  if (enumeration && !enumeration.includes(lexical)) {
+    messages.push(
+      `Value "${lexical}" is not one of the values allowed by ${typeLabel}: ${describeEnumeration(enumeration)}.`,
+    );
+  }
+  for (const pattern of patterns ?? []) {
+    const re = compilePattern(pattern);
+    if (re && !re.test(lexical)) {
+      messages.push(`Value "${lexical}" does not match the pattern "${pattern}" of ${typeLabel}.`);
+    }
+  }
+}
+
+/** Checks xs:length / xs:minLength / xs:maxLength against a length already measured. */
+function checkLengthFacets(
+  lexical: string,
+  len: number,
+  st: SimpleTypeDef,
+  messages: string[],
+): void {
+  const facets = st.facets;
+  const typeLabel = describeType(st);
+  if (facets.length !== undefined && len !== facets.length) {
+    messages.push(
+      `Value "${lexical}" must have length ${facets.length} (${typeLabel}), got ${len}.`,
+    );
+  }
+  if (facets.minLength !== undefined && len < facets.minLength) {
+    messages.push(
+      `Value "${lexical}" is shorter than the minimum length ${facets.minLength} of ${typeLabel}.`,
+    );
+  }
+  if (facets.maxLength !== undefined && len > facets.maxLength) {
+    messages.push(
+      `Value "${lexical}" is longer than the maximum length ${facets.maxLength} of ${typeLabel}.`,
+    );
+  }
+}
+
+/**
+ * An xs:list value: each item is checked against the item type, the length
+ * facets count items, and enumeration/pattern apply to the whole list.
+ */
+function checkList(value: FacetValue, st: SimpleTypeDef): string[] {
+  const items = listItems(value);
+  const lexical = items.join(' ');
+  const messages: string[] = [];
+  if (st.itemType) {
+    for (const item of items) messages.push(...checkFacets(item, st.itemType));
+  }
+  checkLexicalFacets(lexical, st, messages);
+  checkLengthFacets(lexical, items.length, st, messages);
+  return messages;
+}
+
+/**
+ * An xs:union value is valid when it is valid for one of the member types,
+ * tried in declaration order.
+ */
+function checkUnion(value: FacetValue, st: SimpleTypeDef): string[] {
+  const members = st.memberTypes ?? [];
+  const lexical = Array.isArray(value) ? value.join(' ') : String(value).trim();
+  const messages: string[] = [];
+  if (members.length > 0 && !members.some((m) => checkFacets(value, m).length === 0)) {
+    const names = members.map((m) => m.name || m.base).join(', ');
+    messages.push(
+      `Value "${lexical}" is not valid for any member type of ${describeType(st)} (${names}).`,
+    );
+  }
+  checkLexicalFacets(lexical, st, messages);
+  return messages;
+}
+
+/**
+ * Checks a value against a (flattened) simple type: the lexical space of its
+ * built-in base and its facets. List and union types are checked item by item
+ * and member by member.
+ *
+ * @param value - The JSON value; numbers and booleans are checked in their `String()` form,
+ *                arrays are the items of an xs:list.
+ * @param st    - The simple type whose facets constrain the value.
+ * @returns One message per violated facet (empty when the value is valid).
+ */
+export function checkFacets(value: FacetValue, st: SimpleTypeDef): string[] {
+  if (st.variety === 'list') return checkList(value, st);
+  if (st.variety === 'union') return checkUnion(value, st);
+
+  const facets: SimpleTypeFacets = st.facets;
+  const text = Array.isArray(value) ? value.join(' ') : String(value);
+  const lexical = normalizeWhiteSpace(text, st);
+  const typeLabel = describeType(st);
+  const messages: string[] = [];
+
+  if (!isValidBuiltinValue(lexical, st.base)) {
+    // Built-in types are checked under their own name (see valueType)
+    const of = st.name === st.base ? '' : ` (${typeLabel})`;
+    messages.push(`Value "${lexical}" is not a valid ${st.base}${of}.`);
+  }
+
+  checkLexicalFacets(lexical, st, messages);
+  checkLengthFacets(lexical, valueLength(lexical, st.base), st, messages);
+
+  const ranges: [string | undefined, (c: number) => boolean, string][] = [
+    [facets.minInclusive, (c) => c >= 0, 'greater than or equal to'],
+    [facets.maxInclusive, (c) => c <= 0, 'less than or equal to'],
+    [facets.minExclusive, (c) => c > 0, 'greater than'],
+    [facets.maxExclusive, (c) => c < 0, 'less than'],
+  ];
+  for (const [bound, ok, relation] of ranges) {
+    if (bound === undefined) continue;
+    const cmp = compareValues(lexical, bound, st.base);
+    if (cmp !== undefined && !ok(cmp)) {
+      messages.push(`Value "${lexical}" must be ${relation} ${bound} (${typeLabel}).`);
+    }
+  }
+
+  if (facets.totalDigits !== undefined || facets.fractionDigits !== undefined) {
+    const digits = countDigits(lexical);
+    if (digits && facets.totalDigits !== undefined && digits.total > facets.totalDigits) {
+      messages.push(
+        `Value "${lexical}" has ${digits.total} digits; ${typeLabel} allows at most ${facets.totalDigits}.`,
+      );
+    }
+    if (digits && facets.fractionDigits !== undefined && digits.fraction > facets.fractionDigits) {
+      messages.push(
+        `Value "${lexical}" has ${digits.fraction} fraction digits; ${typeLabel} allows at most ${facets.fractionDigits}.`,
+      );
+    }
+  }
+
+  return messages;
+}
@@ -0,0 +1,448 @@
+import type { TimezonePolicy } from '../schema.js';
+import { applyTransformer } from '../transform.js';
+import type { TransformContext, Transformers } from '../transform.js';
+import type { JsonValue } from '../types.js';
+import { isJsonObject, localName, lookupCI } from '../utils.js';
+import { ANY_SIMPLE_TYPE, toLexical, valueType } from '../xml/lexical.js';
+import { normalizeBuiltinType } from '../xsd/builtins.js';
+import type {
+  AttributeDef,
+  ElementDef,
+  IdentityConstraintDef,
+  SimpleTypeDef,
+} from '../xsd/types.js';
+import type { SchemaWalker } from '../xsd/walker.js';
+import { XsdSerializationError, issueFor } from './errors.js';
+import type { ValidationIssue } from './errors.js';
+
+/**
+ * One path of a selector or field XPath, in the subset XSD allows:
+ * `(.//)? step (/ step)*`, where a step is `.`, a name, `*` or `prefix:*`,
+ * and the last step of a field may be `@name`.
+ */
+interface XPathPath {
+  /** Starts with `.//`: the steps apply at any depth below the context node. */
+  descendant: boolean;
+  /** Lowercased local names of the child steps; `*` matches any element. */
+  steps: string[];
+  /** Lowercased local name of the final `@attribute` step of a field. */
+  attribute?: string;
+}
+
+/** A node of the JSON tree: an element value and its JSON path. */
+interface JsonNode {
+  value: JsonValue;
+  path: string;
+}
+
+/** A field value of a selected node, with the JSON path it was read from. */
+interface FieldValue {
+  text: string;
+  path: string;
+}
+
+/** The key values a key or unique constraint collected on one occurrence of its element. */
+interface KeyTable {
+  name: string;
+  /** JSON path of the element occurrence that declares the constraint. */
+  scope: string;
+  values: Set<string>;
+}
+
+/** The references a keyref collected on one occurrence of its element. */
+interface KeyrefUse {
+  el: ElementDef;
+  constraint: IdentityConstraintDef;
+  scope: string;
+  references: { key: string; display: string; path: string }[];
+}
+
+/** Settings of `checkIdentityConstraints`: the JSON conventions and how values are written. */
+export interface IdentityOptions {
+  attributePrefix: string;
+  textNodeKey: string;
+  timezone?: TimezonePolicy;
+  transformers?: Transformers;
+}
+
+/** State of one identity check over the JSON document. */
+interface IdentityContext {
+  walker: SchemaWalker;
+  issues: ValidationIssue[];
+  options: IdentityOptions;
+  /** Lexical forms of the simple values, by lowercased JSON path. */
+  texts: Map<string, string>;
+  /** Element occurrences declaring constraints, evaluated once every value is known. */
+  scopes: { el: ElementDef; node: JsonNode }[];
+  tables: KeyTable[];
+  keyrefs: KeyrefUse[];
+  /** xs:ID values seen, with the path of their first occurrence. */
+  ids: Map<string, string>;
+  /** xs:ID values, checked for duplicates after the identity constraints. */
+  idValues: { value: string; path: string; def: ElementDef | AttributeDef }[];
+  /** xs:IDREF(S) values, checked once every xs:ID is known. */
+  idrefs: { value: string; path: string; def: ElementDef | AttributeDef }[];
+}
+
+const parsedXPaths = new Map<string, XPathPath[]>();
+
+/** Parses a selector or field XPath into its `|`-separated paths. */
+function parseXPath(xpath: string): XPathPath[] {
+  let paths = parsedXPaths.get(xpath);
+  if (!paths) {
+    paths = xpath.split('|').map((alternative) => {
+      let rest = alternative.replace(/\s+/g, '');
+      const descendant = rest.startsWith('.//');
+      if (descendant) rest = rest.slice(3);
+      const steps: string[] = [];
+      let attribute: string | undefined;
+      for (const step of rest.split('/')) {
+        const name = step.replace(/^child::/, '');
+        if (name.startsWith('@') || name.startsWith('attribute::')) {
+          attribute = localName(name.replace(/^@|^attribute::/, '')).toLowerCase();
+        } else if (name !== '.' && name !== '') {
+          steps.push(localName(name).toLowerCase());
+        }
+      }
+      return { descendant, steps, attribute };
+    });
+    parsedXPaths.set(xpath, paths);
+  }
+  return paths;
+}
+
+/** The child elements of a node matching a name test, repeated ones item by item. */
+function childNodes(node: JsonNode, test: string, ctx: IdentityContext): JsonNode[] {
+  const { value, path } = node;
+  if (!isJsonObject(value)) return [];
+  const result: JsonNode[] = [];
+  for (const [key, child] of Object.entries(value)) {
+    if (key === ctx.options.textNodeKey || key.startsWith(ctx.options.attributePrefix)) continue;
+    if (test !== '*' && localName(key).toLowerCase() !== test) continue;
+    if (Array.isArray(child)) {
+      child.forEach((item, i) => {
+        if (item !== null) result.push({ value: item, path: `${path}.${key}[${i}]` });
+      });
+    } else if (child !== null && child !== undefined) {
+      result.push({ value: child, path: `${path}.${key}` });
+    }
+  }
+  return result;
+}
+
+function descendantsOrSelf(node: JsonNode, ctx: IdentityContext): JsonNode[] {
+  return [node, ...childNodes(node, '*', ctx).flatMap((child) => descendantsOrSelf(child, ctx))];
+}
+
+/** The element nodes an XPath selects from a context node (attribute steps excluded). */
+function selectNodes(node: JsonNode, paths: XPathPath[], ctx: IdentityContext): JsonNode[] {
+  return paths.flatMap((xpath) => {
+    let nodes = xpath.descendant ? descendantsOrSelf(node, ctx) : [node];
+    for (const step of xpath.steps) nodes = nodes.flatMap((n) => childNodes(n, step, ctx));
+    return nodes;
+  });
+}
+
+/** Text of a scalar, or of the `#text` of an element with simple content. */
+function scalarText(value: JsonValue, textNodeKey: string): string | undefined {
+  if (value === null) return undefined;
+  if (Array.isArray(value)) return value.map(String).join(' ');
+  if (!isJsonObject(value)) return String(value);
+  const text = value[textNodeKey];
+  return text !== undefined && text !== null && typeof text !== 'object' ? String(text) : undefined;
+}
+
+/**
+ * Records the lexical form of a simple value, as the builder writes it (after
+ * its transformer), under its path. Values that cannot be written (reported by
+ * the validator) keep their text.
+ */
+function recordText(
+  jsonValue: JsonValue,
+  context: TransformContext,
+  ctx: IdentityContext,
+): string | undefined {
+  const { attributePrefix, transformers } = ctx.options;
+  const value = applyTransformer(transformers, jsonValue, context, attributePrefix);
+  if (value === null) return undefined;
+  let text: string | undefined;
+  try {
+    text = toLexical(value, context.type, context.path, {
+      timezone: ctx.options.timezone ?? 'utc',
+    });
+  } catch (err) {
+    if (!(err instanceof XsdSerializationError)) throw err;
+    text = scalarText(value, ctx.options.textNodeKey);
+  }
+  if (text !== undefined) ctx.texts.set(context.path.toLowerCase(), text);
+  return text;
+}
+
+/** The lexical form recorded for the value at a path, else its text. */
+function textAt(value: JsonValue, path: string, ctx: IdentityContext): string | undefined {
+  const textPath = isJsonObject(value) ? `${path}.${ctx.options.textNodeKey}` : path;
+  return ctx.texts.get(textPath.toLowerCase()) ?? scalarText(value, ctx.options.textNodeKey);
+}
+
+/**
+ * Evaluates a field XPath on a selected node. Returns undefined when the field
+ * is absent, and `'multiple'` when it selects more than one value.
+ */
+function fieldValue(
+  node: JsonNode,
+  xpath: string,
+  ctx: IdentityContext,
+): FieldValue | 'multiple' | undefined {
+  const values: FieldValue[] = [];
+  for (const path of parseXPath(xpath)) {
+    const { attribute } = path;
+    for (const target of selectNodes(node, [path], ctx)) {
+      if (attribute === undefined) {
+        const text = textAt(target.value, target.path, ctx);
+        if (text !== undefined) values.push({ text, path: target.path });
+        continue;
+      }
+      const obj = target.value;
+      if (!isJsonObject(obj)) continue;
+      const key = Object.keys(obj).find(
+        (k) =>
+          k.startsWith(ctx.options.attributePrefix) &&
+          localName(k.slice(ctx.options.attributePrefix.length)).toLowerCase() === attribute,
+      );
+      if (key === undefined) continue;
+      const text = textAt(obj[key], `${target.path}.${key}`, ctx);
+      if (text !== undefined) values.push({ text, path: `${target.path}.${key}` });
+    }
+  }
+  if (values.length > 1) return 'multiple';
+  return values[0];
+}
+
+/** Evaluates the identity constraints of one occurrence of `el`. */
+function evaluateConstraints(el: ElementDef, node: JsonNode, ctx: IdentityContext): void {
+  for (const constraint of el.identityConstraints ?? []) {
+    const { kind, name } = constraint;
+    const label = `${kind} "${name}"`;
+    const seen = new Map<string, string>();
+    const use: KeyrefUse = { el, constraint, scope: node.path, references: [] };
+    for (const selected of selectNodes(node, parseXPath(constraint.selector), ctx)) {
+      const fields: FieldValue[] = [];
+      for (const xpath of constraint.fields) {
+        const field = fieldValue(selected, xpath, ctx);
+        if (field === 'multiple') {
+          ctx.issues.push(
+            issueFor(
+              ctx.walker,
+              el,
+              selected.path,
+              `Field "${xpath}" of ${label} selects more than one value.`,
+            ),
+          );
+          break;
+        }
+        if (field === undefined) {
+          if (kind === 'key') {
+            ctx.issues.push(
+              issueFor(
+                ctx.walker,
+                el,
+                selected.path,
+                `Key "${name}" requires a value for field "${xpath}".`,
+              ),
+            );
+          }
+          break;
+        }
+        fields.push(field);
+      }
+      // Nodes lacking a field do not take part in unique and keyref constraints
+      if (fields.length < constraint.fields.length) continue;
+      const key = JSON.stringify(fields.map((f) => f.text));
+      const display = fields.map((f) => `"${f.text}"`).join(', ');
+      const path = fields.length === 1 ? fields[0].path : selected.path;
+      if (kind === 'keyref') {
+        use.references.push({ key, display, path });
+        continue;
+      }
+      const first = seen.get(key);
+      if (first !== undefined) {
+        ctx.issues.push(
+          issueFor(
+            ctx.walker,
+            el,
+            path,
+            `Duplicate value ${display} for ${label} (first at ${first}).`,
+          ),
+        );
+      } else {
+        seen.set(key, path);
+      }
+    }
+    if (kind === 'keyref') ctx.keyrefs.push(use);
+    else ctx.tables.push({ name, scope: node.path, values: new Set(seen.keys()) });
+  }
+}
+
+/** The xs:ID / xs:IDREF / xs:IDREFS kind of a simple type, if any. */
+function idKind(typeName: string | undefined, st: SimpleTypeDef | undefined): string | undefined {
+  if (st) return st.variety === 'list' && st.itemType?.base === 'xs:IDREF' ? 'xs:IDREFS' : st.base;
+  return typeName ? normalizeBuiltinType(typeName) : undefined;
+}
+
+/** Records an xs:ID value or the xs:IDREF(S) references of a value. */
+function collectId(
+  kind: string | undefined,
+  text: string | undefined,
+  path: string,
+  def: ElementDef | AttributeDef,
+  ctx: IdentityContext,
+): void {
+  if (kind !== 'xs:ID' && kind !== 'xs:IDREF' && kind !== 'xs:IDREFS') return;
+  if (text === undefined) return;
+  if (kind === 'xs:ID') {
+    ctx.idValues.push({ value: text.trim(), path, def });
+    return;
+  }
+  for (const ref of text.split(/\s+/).filter(Boolean)) ctx.idrefs.push({ value: ref, path, def });
+}
+
+/** Walks the JSON along the schema, collecting identity tables and ID/IDREF values. */
+function visit(el: ElementDef, value: JsonValue, path: string, ctx: IdentityContext): void {
+  const { walker } = ctx;
+  const listValue = !el.isArray && walker.resolveSimpleTypeForElement(el)?.variety === 'list';
+  if (Array.isArray(value) && !listValue) {
+    value.forEach((item, i) => visit(el, item, `${path}[${i}]`, ctx));
+    return;
+  }
+  if (value === null || value === undefined) return;
+
+  const xsiType = isJsonObject(value)
+    ? lookupCI(value, `${ctx.options.attributePrefix}xsi:type`)
+    : undefined;
+  const typed =
+    (xsiType !== undefined && xsiType !== null && walker.resolveXsiType(el, String(xsiType))) || el;
+
+  if (el.identityConstraints?.length) ctx.scopes.push({ el, node: { value, path } });
+
+  const ct = walker.resolveComplexTypeForElement(typed);
+  if (!ct) {
+    const st = walker.resolveSimpleTypeForElement(typed);
+    const type = valueType(typed.typeName, st);
+    const text = recordText(value, { path, element: typed, type, typeName: typed.typeName }, ctx);
+    collectId(idKind(typed.typeName, st), text, path, el, ctx);
+    return;
+  }
+  const textType = walker.resolveTextTypeForElement(typed) ?? ANY_SIMPLE_TYPE;
+  if (!isJsonObject(value)) {
+    recordText(value, { path, element: typed, type: textType }, ctx);
+    return;
+  }
+
+  for (const attrDef of walker.getAttributesForElement(typed)) {
+    const key = `${ctx.options.attributePrefix}${attrDef.name}`;
+    const attrValue = lookupCI(value, key);
+    if (attrValue === undefined) continue;
+    const st = walker.resolveSimpleTypeForAttribute(attrDef);
+    const context: TransformContext = {
+      path: `${path}.${key}`,
+      element: typed,
+      attribute: attrDef,
+      type: valueType(attrDef.type, st),
+      typeName: attrDef.type || undefined,
+    };
+    collectId(
+      idKind(attrDef.type, st),
+      recordText(attrValue, context, ctx),
+      context.path,
+      attrDef,
+      ctx,
+    );
+  }
+  const textValue = value[ctx.options.textNodeKey];
+  if (ct.hasTextContent && textValue !== undefined) {
+    const textPath = `${path}.${ctx.options.textNodeKey}`;
+    recordText(textValue, { path: textPath, element: typed, type: textType }, ctx);
+  }
+
+  const visited = new Set<string>();
+  for (const child of walker.getChildElementsForElement(typed)) {
+    const name = child.name.toLowerCase();
+    if (visited.has(name)) continue;
+    visited.add(name);
+    const childValue = lookupCI(value, child.name);
+    if (childValue !== undefined) visit(child, childValue, `${path}.${child.name}`, ctx);
+  }
+}
+
+/** True when `path` is `scope` itself or a path inside it. */
+function isWithin(path: string, scope: string): boolean {
+  return path === scope || path.startsWith(`${scope}.`) || path.startsWith(`${scope}[`);
+}
+
+/**
+ * Checks the identity constraints of the JSON document: xs:key and xs:unique
+ * values are unique within each occurrence of their element, xs:keyref values
+ * match a key declared on that element or below it, xs:ID values are unique
+ * and xs:IDREF(S) values name one of them. Issues are appended to `issues`.
+ */
+export function checkIdentityConstraints(
+  rootEl: ElementDef,
+  rootValue: JsonValue,
+  rootPath: string,
+  walker: SchemaWalker,
+  issues: ValidationIssue[],
+  options: IdentityOptions,
+): void {
+  const ctx: IdentityContext = {
+    walker,
+    issues,
+    options,
+    texts: new Map(),
+    scopes: [],
+    tables: [],
+    keyrefs: [],
+    ids: new Map(),
+    idValues: [],
+    idrefs: [],
+  };
+  visit(rootEl, rootValue, rootPath, ctx);
+  for (const { el, node } of ctx.scopes) evaluateConstraints(el, node, ctx);
+  for (const { value, path, def } of ctx.idValues) {
+    const first = ctx.ids.get(value);
+    if (first !== undefined) {
+      issues.push(
+        issueFor(walker, def, path, `Duplicate xs:ID value "${value}" (first at ${first}).`),
+      );
+    } else {
+      ctx.ids.set(value, path);
+    }
+  }
+
+  for (const { el, constraint, scope, references } of ctx.keyrefs) {
+    const refer = localName(constraint.refer ?? '');
+    const keys = new Set(
+      ctx.tables
+        .filter((table) => table.name === refer && isWithin(table.scope, scope))
+        .flatMap((table) => [...table.values]),
+    );
+    for (const { key, display, path } of references) {
+      if (keys.has(key)) continue;
+      issues.push(
+        issueFor(
+          walker,
+          el,
+          path,
+          `Value ${display} of keyref "${constraint.name}" does not match any "${refer}" key.`,
+        ),
+      );
+    }
+  }
+
+  for (const { value, path, def } of ctx.idrefs) {
+    if (!ctx.ids.has(value)) {
+      issues.push(
+        issueFor(walker, def, path, `xs:IDREF value "${value}" does not match any xs:ID.`),
+      );
+    }
+  }
+}
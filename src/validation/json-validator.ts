@@ -1,9 +1,42 @@
+import type { TimezonePolicy } from '../schema.js';
+import { applyTransformer } from '../transform.js';
+import type { TransformContext, Transformers } from '../transform.js';
 import type { JsonObject, JsonValue } from '../types.js';
-import { lookupCI, lowerSet } from '../utils.js';
-import type { ElementDef } from '../xsd/types.js';
+import { isJsonObject, lookupCI, lowerSet } from '../utils.js';
+import { ANY_SIMPLE_TYPE, toLexical, valueType } from '../xml/lexical.js';
+import {
+  branchLabel,
+  givenChoiceBranches,
+  isElementPresent,
+  isEmptiable,
+  isGroupPresent,
+  isGroupRequired,
+  isRepeatable,
+  isSingleChoiceBranch,
+} from '../xsd/particles.js';
+import type { AttributeDef, ElementDef, ModelGroup, SimpleTypeDef } from '../xsd/types.js';
 import type { SchemaWalker } from '../xsd/walker.js';
-import { XsdValidationError } from './errors.js';
+import { XsdSerializationError, XsdValidationError, issueFor } from './errors.js';
 import type { ValidationIssue } from './errors.js';
+import { checkFacets } from './facets.js';
+import { checkIdentityConstraints } from './identity.js';
+
+/**
+ * Settings of `validateJson`: the JSON conventions, and the values the builder
+ * fills in for omitted elements.
+ */
+export interface JsonValidationOptions {
+  attributePrefix: string;
+  textNodeKey: string;
+  /** Omitted elements with a default are written by the builder, so they are not missing. */
+  elementDefaults?: boolean;
+  /** Timezone of the Date values, checked in the lexical form the builder writes. */
+  timezone?: TimezonePolicy;
+  /** Called for values that may not be what was meant (unsafe integers). */
+  onWarning?: (warning: ValidationIssue) => void;
+  /** Transformers applied to simple values before they are checked, as the builder does. */
+  transformers?: Transformers;
+}
 
 /**
  * Validates a JSON object against the SchemaModel.
@@ -14,8 +47,7 @@ import type { ValidationIssue } from './errors.js';
 export function validateJson(
   json: JsonObject,
   walker: SchemaWalker,
-  attributePrefix: string,
-  textNodeKey: string,
+  options: JsonValidationOptions,
 ): void {
   const issues: ValidationIssue[] = [];
   const rootName = walker.schema.rootElement;
@@ -33,8 +65,15 @@ export function validateJson(
     `$.${rootName}`,
     walker,
     issues,
-    attributePrefix,
-    textNodeKey,
+    options,
+  );
+  checkIdentityConstraints(
+    rootEl,
+    rootValue[rootName] as JsonValue,
+    `$.${rootName}`,
+    walker,
+    issues,
+    options,
   );
 
   if (issues.length > 0) {
@@ -42,104 +81,397 @@ export function validateJson(
   }
 }
 
+/** State shared while validating the children of one complex element. */
+interface ContentContext {
+  obj: JsonObject;
+  path: string;
+  walker: SchemaWalker;
+  issues: ValidationIssue[];
+  options: JsonValidationOptions;
+  /** Lowercased names already validated (an element may appear in several choice branches). */
+  checked: Set<string>;
+}
+
+/**
+ * Validates the children described by a model group. Only the xs:choice
+ * branches actually present in the JSON are validated; arrays are accepted
+ * for members of a repeating group even when the element itself has maxOccurs=1.
+ */
+function validateParticles(
+  group: ModelGroup,
+  ctx: ContentContext,
+  required: boolean,
+  repeating: boolean,
+): void {
+  const inRepeat = repeating || isRepeatable(group);
+  if (group.compositor === 'choice') checkChoice(group, ctx, required, inRepeat);
+  for (const particle of group.particles) {
+    if (particle.kind === 'element') {
+      if (group.compositor === 'choice' && !isElementPresent(particle.element, ctx.obj)) {
+        continue;
+      }
+      validateChild(particle.element, ctx, required, inRepeat);
+    } else if (particle.kind === 'group') {
+      if (group.compositor === 'choice' && !isGroupPresent(particle, ctx.obj)) continue;
+      validateParticles(particle, ctx, isGroupRequired(particle, ctx.obj, required), inRepeat);
+    }
+  }
+}
+
+/**
+ * Reports an xs:choice with no branch given while required, or with more than
+ * one branch given. Inside a repeating group each occurrence may take another
+ * branch, so exclusivity is only checked outside of one.
+ */
+function checkChoice(
+  group: ModelGroup,
+  ctx: ContentContext,
+  required: boolean,
+  repeating: boolean,
+): void {
+  const branches = givenChoiceBranches(group, ctx.obj);
+  if (branches.length === 0) {
+    if (required && group.particles.length > 0 && !isEmptiable(group)) {
+      const labels = group.particles.map(branchLabel).join(' | ');
+      ctx.issues.push({
+        path: ctx.path,
+        message: `One branch of the choice ${labels} is required, but none was given.`,
+      });
+    }
+    return;
+  }
+  if (!repeating && !isSingleChoiceBranch(branches, ctx.obj)) {
+    ctx.issues.push({
+      path: ctx.path,
+      message: `Only one branch of the choice may be given, but ${branches.map(branchLabel).join(', ')} were given.`,
+    });
+  }
+}
+
+function validateChild(
+  el: ElementDef,
+  ctx: ContentContext,
+  required: boolean,
+  repeating: boolean,
+): void {
+  const key = el.name.toLowerCase();
+  if (ctx.checked.has(key)) return;
+  ctx.checked.add(key);
+
+  const { obj, path, walker, issues, options } = ctx;
+  const childPath = `${path}.${el.name}`;
+  const value = lookupCI(obj, el.name);
+  if (value === undefined || (value === null && !required)) {
+    // The builder fills in fixed values (and defaults, with elementDefaults)
+    const filled =
+      value === undefined &&
+      (el.fixed !== undefined || (options.elementDefaults && el.default !== undefined));
+    if (required && el.minOccurs > 0 && !filled) {
+      issues.push(
+        issueFor(
+          walker,
+          el,
+          childPath,
+          `Required element "${el.name}" (minOccurs=${el.minOccurs}) is missing.`,
+        ),
+      );
+    }
+    return;
+  }
+  if (repeating && !el.isArray && Array.isArray(value)) {
+    // One item per occurrence of the enclosing repeating group
+    for (let i = 0; i < value.length; i++) {
+      validateElement(el, value[i], `${childPath}[${i}]`, walker, issues, options);
+    }
+    return;
+  }
+  if (!repeating && el.isArray) {
+    const count = Array.isArray(value) ? value.length : 1;
+    if (count < el.minOccurs) {
+      issues.push(
+        issueFor(
+          walker,
+          el,
+          childPath,
+          `Element "${el.name}" occurs ${count} time(s), but minOccurs=${el.minOccurs}.`,
+        ),
+      );
+    } else if (el.maxOccurs !== 'unbounded' && count > el.maxOccurs) {
+      issues.push(
+        issueFor(
+          walker,
+          el,
+          childPath,
+          `Element "${el.name}" occurs ${count} time(s), but maxOccurs=${el.maxOccurs}.`,
+        ),
+      );
+    }
+  }
+  validateElement(el, value, childPath, walker, issues, options);
+}
+
+/**
+ * True when a JSON value equals a fixed="…" value: the same text, the same
+ * number (`1` for "1.0") or boolean, or empty — an empty element or attribute
+ * takes its fixed value.
+ */
+function matchesFixed(value: JsonValue, fixed: string): boolean {
+  if (value === '' || value === null) return true;
+  if (typeof value === 'object') {
+    return Array.isArray(value) && value.map(String).join(' ') === fixed;
+  }
+  if (String(value) === fixed) return true;
+  if (typeof value === 'number') return fixed.trim() !== '' && Number(fixed) === value;
+  if (typeof value === 'bigint') return /^[+-]?\d+$/.test(fixed.trim()) && BigInt(fixed) === value;
+  if (typeof value === 'boolean') return fixed === (value ? '1' : '0');
+  return false;
+}
+
+/** Reports a value that differs from the fixed value of its element or attribute. */
+function reportFixed(
+  value: JsonValue,
+  def: ElementDef | AttributeDef,
+  path: string,
+  issues: ValidationIssue[],
+  walker: SchemaWalker,
+): void {
+  if (def.fixed === undefined || matchesFixed(value, def.fixed)) return;
+  const kind = 'use' in def ? 'Attribute' : 'Element';
+  issues.push(
+    issueFor(
+      walker,
+      def,
+      path,
+      `${kind} "${def.name}" has the fixed value "${def.fixed}", but ${typeof value === 'bigint' ? value : JSON.stringify(value)} was given.`,
+    ),
+  );
+}
+
+function reportFacets(
+  lexical: string,
+  st: SimpleTypeDef,
+  path: string,
+  issues: ValidationIssue[],
+  walker: SchemaWalker,
+  def: ElementDef | AttributeDef,
+): void {
+  for (const message of checkFacets(lexical, st)) {
+    issues.push(issueFor(walker, def, path, message));
+  }
+}
+
+/**
+ * Checks a simple value, as returned by the matching transformer: it must be
+ * writable in the lexical space of its type (see `toLexical`), then match the
+ * fixed value, and the built-in type and facets. These are checked on the
+ * lexical form the builder writes (e.g. `1e21` as an integer), integer ranges
+ * with exact (BigInt) arithmetic.
+ */
+function reportSimpleValue(
+  jsonValue: JsonValue,
+  context: TransformContext,
+  issues: ValidationIssue[],
+  walker: SchemaWalker,
+  options: JsonValidationOptions,
+): void {
+  const { path, type } = context;
+  const def = context.attribute ?? context.element;
+  const value = applyTransformer(options.transformers, jsonValue, context, options.attributePrefix);
+  if (value === null) return;
+  let lexical: string;
+  try {
+    const { timezone = 'utc', onWarning } = options;
+    lexical = toLexical(value, type, path, { timezone, onWarning });
+  } catch (err) {
+    if (!(err instanceof XsdSerializationError)) throw err;
+    issues.push(issueFor(walker, def, path, err.reason));
+    return;
+  }
+  const json = typeof value !== 'object' || Array.isArray(value);
+  reportFixed(json ? value : lexical, def, path, issues, walker);
+  reportFacets(lexical, type, path, issues, walker, def);
+}
+
 function validateElement(
   el: ElementDef,
   value: JsonValue,
   path: string,
   walker: SchemaWalker,
   issues: ValidationIssue[],
-  attributePrefix: string,
-  textNodeKey: string,
+  options: JsonValidationOptions,
 ): void {
-  // Handle arrays (maxOccurs > 1)
-  if (Array.isArray(value)) {
-    if (!el.isArray) {
-      issues.push({
+  const { attributePrefix, textNodeKey } = options;
+  if (value === null) {
+    // Optional elements may be null whatever nullHandling writes for them
+    if (el.minOccurs > 0 && !el.nillable) {
+      issues.push(
+        issueFor(
+          walker,
+          el,
+          path,
+          `Element "${el.name}" is required and not nillable, but is null.`,
+        ),
+      );
+    }
+    return;
+  }
+
+  if (el.abstract) {
+    const members = walker.getSubstitutionMembers(el).filter((m) => !m.abstract);
+    const hint = members.length > 0 ? `: ${members.map((m) => `"${m.name}"`).join(', ')}` : '';
+    issues.push(
+      issueFor(
+        walker,
+        el,
         path,
-        message: `Element "${el.name}" does not allow multiple occurrences (maxOccurs=1), but an array was provided.`,
-      });
+        `Element "${el.name}" is abstract; use a member of its substitution group instead${hint}.`,
+      ),
+    );
+    return;
+  }
+
+  // Handle arrays (maxOccurs > 1) — a single xs:list element takes its items as an array
+  const listValue = !el.isArray && walker.resolveSimpleTypeForElement(el)?.variety === 'list';
+  if (Array.isArray(value) && !listValue) {
+    if (!el.isArray) {
+      issues.push(
+        issueFor(
+          walker,
+          el,
+          path,
+          `Element "${el.name}" does not allow multiple occurrences (maxOccurs=1), but an array was provided.`,
+        ),
+      );
       return;
     }
     for (let i = 0; i < value.length; i++) {
-      validateElement(el, value[i], `${path}[${i}]`, walker, issues, attributePrefix, textNodeKey);
+      validateElement(el, value[i], `${path}[${i}]`, walker, issues, options);
     }
     return;
   }
 
-  const ct = walker.resolveComplexTypeForElement(el);
+  // xsi:type — validate against the named subtype instead of the declared type
+  const xsiTypeKey = `${attributePrefix}xsi:type`;
+  const xsiType = isJsonObject(value) ? lookupCI(value, xsiTypeKey) : undefined;
+  const typed =
+    xsiType !== undefined && xsiType !== null ? walker.resolveXsiType(el, String(xsiType)) : el;
+  if (!typed || (typed !== el && !walker.resolveComplexTypeForElement(typed))) {
+    issues.push(
+      issueFor(
+        walker,
+        el,
+        `${path}.${xsiTypeKey}`,
+        `xsi:type "${xsiType}" is not a complex type derived from the declared type of "${el.name}".`,
+      ),
+    );
+    return;
+  }
+
+  const ct = walker.resolveComplexTypeForElement(typed);
 
   if (!ct) {
-    // Simple type element — value must be scalar or null
-    if (value !== null && typeof value === 'object') {
-      issues.push({
-        path,
-        message: `Element "${el.name}" is a simple type but received an object.`,
-      });
+    // Simple type element — value must be scalar or null (or the items of an xs:list)
+    if (isJsonObject(value)) {
+      issues.push(
+        issueFor(walker, el, path, `Element "${el.name}" is a simple type but received an object.`),
+      );
+      return;
     }
+    const type = valueType(typed.typeName, walker.resolveSimpleTypeForElement(typed));
+    const context = { path, element: typed, type, typeName: typed.typeName };
+    reportSimpleValue(value, context, issues, walker, options);
     return;
   }
 
   if (value === null || value === undefined) {
     if (el.minOccurs > 0) {
-      issues.push({ path, message: `Required element "${el.name}" is null/undefined.` });
+      issues.push(issueFor(walker, el, path, `Required element "${el.name}" is null/undefined.`));
     }
     return;
   }
 
-  if (typeof value !== 'object' || Array.isArray(value)) {
-    issues.push({
-      path,
-      message: `Element "${el.name}" expects an object (complexType) but received a scalar/array.`,
-    });
+  if (!isJsonObject(value)) {
+    issues.push(
+      issueFor(
+        walker,
+        el,
+        path,
+        `Element "${el.name}" expects an object (complexType) but received a scalar/array.`,
+      ),
+    );
     return;
   }
 
   const obj = value as JsonObject;
 
-  // Validate required attributes — case-insensitive lookup against JSON keys
-  for (const attrDef of walker.getAttributesForElement(el)) {
-    if (attrDef.use === 'required') {
-      const key = `${attributePrefix}${attrDef.name}`;
-      if (lookupCI(obj, key) === undefined) {
-        issues.push({
-          path: `${path}.${key}`,
-          message: `Required attribute "${attrDef.name}" is missing.`,
-        });
-      }
+  // Validate attributes — case-insensitive lookup against JSON keys
+  for (const attrDef of walker.getAttributesForElement(typed)) {
+    const key = `${attributePrefix}${attrDef.name}`;
+    const attrValue = lookupCI(obj, key);
+    if (attrDef.use === 'required' && attrValue === undefined && attrDef.fixed === undefined) {
+      issues.push(
+        issueFor(
+          walker,
+          attrDef,
+          `${path}.${key}`,
+          `Required attribute "${attrDef.name}" is missing.`,
+        ),
+      );
+    }
+    if (attrValue !== undefined) {
+      const context: TransformContext = {
+        path: `${path}.${key}`,
+        element: typed,
+        attribute: attrDef,
+        type: valueType(attrDef.type, walker.resolveSimpleTypeForAttribute(attrDef)),
+        typeName: attrDef.type || undefined,
+      };
+      reportSimpleValue(attrValue, context, issues, walker, options);
     }
   }
 
-  // Validate child elements — case-insensitive lookup
-  const resolvedChildren = walker.getChildElementsForElement(el);
-  for (const childEl of resolvedChildren) {
-    const childValue = lookupCI(obj, childEl.name);
-    if (childEl.minOccurs > 0 && (childValue === undefined || childValue === null)) {
-      issues.push({
-        path: `${path}.${childEl.name}`,
-        message: `Required element "${childEl.name}" (minOccurs=${childEl.minOccurs}) is missing.`,
-      });
-      continue;
-    }
-    if (childValue !== undefined && childValue !== null) {
-      validateElement(
-        childEl,
-        childValue,
-        `${path}.${childEl.name}`,
-        walker,
-        issues,
-        attributePrefix,
-        textNodeKey,
+  const prohibited = walker.getProhibitedAttributesForElement(typed);
+  for (const attrDef of prohibited) {
+    const key = `${attributePrefix}${attrDef.name}`;
+    if (lookupCI(obj, key) !== undefined) {
+      issues.push(
+        issueFor(walker, attrDef, `${path}.${key}`, `Attribute "${attrDef.name}" is prohibited.`),
       );
     }
   }
 
+  // Validate xs:simpleContent text against the facets of its type
+  const textValue = obj[textNodeKey];
+  if (ct.hasTextContent && textValue !== undefined) {
+    const type = walker.resolveTextTypeForElement(typed) ?? ANY_SIMPLE_TYPE;
+    const context = { path: `${path}.${textNodeKey}`, element: typed, type };
+    reportSimpleValue(textValue, context, issues, walker, options);
+  }
+
+  // Validate child elements by walking the content model — case-insensitive lookup
+  const content = walker.getContentModelForElement(typed);
+  if (content) {
+    const ctx: ContentContext = {
+      obj,
+      path,
+      walker,
+      issues,
+      options,
+      checked: new Set(),
+    };
+    validateParticles(content, ctx, isGroupRequired(content, obj, true), false);
+  }
+
   // In strict mode, warn about keys not in schema (not attributes, not in children, not textNodeKey)
   // Comparisons are case-insensitive: a JSON key "CNPJ" matches a schema child "cnpj".
-  const knownChildren = lowerSet(resolvedChildren.map((e) => e.name));
-  const knownAttrs = lowerSet(
-    walker.getAttributesForElement(el).map((a) => `${attributePrefix}${a.name}`),
-  );
-  const elementHasWildcard = walker.hasWildcardForElement(el);
+  const knownChildren = lowerSet(walker.getChildElementsForElement(typed).map((e) => e.name));
+  const knownAttrs = lowerSet([
+    ...walker.getAttributesForElement(typed).map((a) => `${attributePrefix}${a.name}`),
+    // Already reported as prohibited
+    ...prohibited.map((a) => `${attributePrefix}${a.name}`),
+    xsiTypeKey,
+  ]);
+  const elementHasWildcard = walker.hasWildcardForElement(typed);
   for (const key of Object.keys(obj)) {
     if (key === textNodeKey) continue;
     if (knownChildren.has(key.toLowerCase()) || knownAttrs.has(key.toLowerCase())) continue;
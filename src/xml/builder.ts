@@ -1,10 +1,26 @@
 import { create } from 'xmlbuilder2';
 import type { XMLBuilder } from 'xmlbuilder2/lib/interfaces.js';
+import type { NullHandling, TimezonePolicy } from '../schema.js';
+import { applyTransformer } from '../transform.js';
+import type { TransformContext, Transformers } from '../transform.js';
 import type { JsonObject, JsonValue } from '../types.js';
-import { lookupCI, lowerSet } from '../utils.js';
+import { isJsonObject, lookupCI, lowerSet } from '../utils.js';
 import { XsdMappingError } from '../validation/errors.js';
-import type { ElementDef } from '../xsd/types.js';
+import type { ValidationIssue } from '../validation/errors.js';
+import {
+  branchLabel,
+  flattenElements,
+  givenChoiceBranches,
+  isGroupPresent,
+  isGroupRequired,
+  isRepeatable,
+  isSingleChoiceBranch,
+} from '../xsd/particles.js';
+import type { ElementDef, ModelGroup } from '../xsd/types.js';
 import type { SchemaWalker } from '../xsd/walker.js';
+import { ANY_SIMPLE_TYPE, toLexical, valueType } from './lexical.js';
+
+const XSI_NAMESPACE = 'http://www.w3.org/2001/XMLSchema-instance';
 
 export interface BuildOptions {
   prettyPrint: boolean;
@@ -13,6 +29,105 @@ export interface BuildOptions {
   attributePrefix: string;
   textNodeKey: string;
   targetNamespace?: string;
+  /** Prefix → namespace URI for the prefixes to use; the target namespace gets one too if listed. */
+  namespacePrefixes?: Record<string, string>;
+  /** Output of `null` values of optional elements. */
+  nullHandling: NullHandling;
+  /** Writes omitted elements that have a default (or fixed) value. */
+  elementDefaults: boolean;
+  /** Rejects JSON giving more than one branch of a (non-repeating) xs:choice. */
+  exclusiveChoice: boolean;
+  /** Timezone of the Date values written for date/time types. */
+  timezone: TimezonePolicy;
+  /** Called for values written that may not be what was meant (unsafe integers). */
+  onWarning?: (warning: ValidationIssue) => void;
+  /** Transformers applied to simple values before they are written. */
+  transformers?: Transformers;
+  /** Wraps the root element in a SOAP envelope. */
+  envelope?: EnvelopeOptions;
+}
+
+export interface EnvelopeOptions {
+  /** Namespace of the SOAP version's Envelope, Header and Body elements. */
+  namespace: string;
+  prefix: string;
+  /** soap:Header blocks; global elements of the schema are built from their declaration. */
+  header?: JsonObject;
+}
+
+/**
+ * Namespace bindings of the document being built. The target namespace is the
+ * default namespace unless a prefix is requested for it; every prefixed
+ * namespace is declared once, on the root element.
+ */
+interface NamespaceContext {
+  defaultNamespace?: string;
+  /** Prefix to use per namespace URI: the namespacePrefixes option first, then the schema's own. */
+  preferred: Map<string, string>;
+  /** Prefixes declared so far, by namespace URI. */
+  bound: Map<string, string>;
+  /** Default namespace in scope on each element created, when there is one. */
+  scopes: WeakMap<XMLBuilder, string>;
+  root?: XMLBuilder;
+}
+
+function createNamespaceContext(walker: SchemaWalker, options: BuildOptions): NamespaceContext {
+  const preferred = new Map<string, string>();
+  const declared = [
+    ...Object.entries(options.namespacePrefixes ?? {}),
+    ...(walker.schema.namespaces ?? []),
+    ['xsi', XSI_NAMESPACE],
+  ];
+  for (const [prefix, uri] of declared) {
+    if (!preferred.has(uri)) preferred.set(uri, prefix);
+  }
+  const prefixedTarget = Object.values(options.namespacePrefixes ?? {}).includes(
+    options.targetNamespace ?? '',
+  );
+  return {
+    defaultNamespace: prefixedTarget ? undefined : options.targetNamespace,
+    preferred,
+    bound: new Map(),
+    scopes: new WeakMap(),
+  };
+}
+
+/**
+ * Returns the prefix bound to a namespace URI, binding it on first use: the
+ * preferred prefix when still free, otherwise a generated `nsN`.
+ */
+function prefixFor(uri: string, ns: NamespaceContext): string {
+  const bound = ns.bound.get(uri);
+  if (bound) return bound;
+  const taken = new Set(ns.bound.values());
+  let prefix = ns.preferred.get(uri);
+  if (!prefix || taken.has(prefix) || /^xml/i.test(prefix)) {
+    let i = 1;
+    while (taken.has(`ns${i}`)) i++;
+    prefix = `ns${i}`;
+  }
+  ns.bound.set(uri, prefix);
+  ns.root?.att(`xmlns:${prefix}`, uri);
+  return prefix;
+}
+
+/**
+ * Creates the node of an element in its own namespace: unprefixed in the
+ * default namespace or in no namespace (switching the default in scope with
+ * xmlns="…" / xmlns="" where needed), prefixed otherwise.
+ */
+function createChild(node: XMLBuilder, el: ElementDef, ns: NamespaceContext): XMLBuilder {
+  const inScope = ns.scopes.get(node);
+  let child: XMLBuilder;
+  if (el.namespace && el.namespace !== ns.defaultNamespace) {
+    child = node.ele(`${prefixFor(el.namespace, ns)}:${el.name}`);
+    if (inScope) ns.scopes.set(child, inScope);
+    return child;
+  }
+  child = node.ele(el.name);
+  if (el.namespace !== inScope) child.att('xmlns', el.namespace ?? '');
+  if (el.namespace) ns.scopes.set(child, el.namespace);
+  return child;
 }
 
 /**
@@ -38,17 +153,57 @@ export function buildXml(json: JsonObject, walker: SchemaWalker, options: BuildO
   // Pass headless:true to end() when the caller doesn't want the declaration.
   const doc = create(xmlDeclarationOptions ?? {});
 
-  if (options.targetNamespace) {
-    const root = doc.ele(rootName, { xmlns: options.targetNamespace });
-    buildElement(root, rootEl, rootValue, walker, options, `$.${rootName}`);
-  } else {
-    const root = doc.ele(rootName);
-    buildElement(root, rootEl, rootValue, walker, options, `$.${rootName}`);
+  const ns = createNamespaceContext(walker, options);
+  let parent: XMLBuilder = doc;
+  if (options.envelope) {
+    parent = buildEnvelope(doc, walker, options, options.envelope, ns);
   }
+  const root = createChild(parent, rootEl, ns);
+  if (!ns.root) {
+    ns.root = root;
+    // Prefixes bound while naming the root are declared now that it exists
+    for (const [uri, prefix] of ns.bound) root.att(`xmlns:${prefix}`, uri);
+  }
+  buildElement(root, rootEl, rootValue, walker, options, ns, `$.${rootName}`);
 
   return doc.end({ prettyPrint: options.prettyPrint, headless: !options.xmlDeclaration });
 }
 
+/**
+ * Creates the soap:Envelope (the element every namespace is declared on), its
+ * soap:Header when header blocks are given, and returns the soap:Body.
+ */
+function buildEnvelope(
+  doc: XMLBuilder,
+  walker: SchemaWalker,
+  options: BuildOptions,
+  { namespace, prefix, header }: EnvelopeOptions,
+  ns: NamespaceContext,
+): XMLBuilder {
+  const envelope = doc.ele(`${prefix}:Envelope`).att(`xmlns:${prefix}`, namespace);
+  ns.root = envelope;
+  ns.bound.set(namespace, prefix);
+  if (header) {
+    const headerNode = envelope.ele(`${prefix}:Header`);
+    for (const [key, value] of Object.entries(header)) {
+      const path = `$.Header.${key}`;
+      const el = walker.lookupElement(key);
+      for (const [i, item] of (Array.isArray(value) ? value : [value]).entries()) {
+        if (item === null || item === undefined) continue;
+        const itemPath = Array.isArray(value) ? `${path}[${i}]` : path;
+        if (el) {
+          buildElement(createChild(headerNode, el, ns), el, item, walker, options, ns, itemPath);
+        } else {
+          // Blocks from other specifications (e.g. WS-Security) are written as given
+          const block = headerNode.ele(key);
+          buildWildcardValue(block, item, itemPath, options);
+        }
+      }
+    }
+  }
+  return envelope.ele(`${prefix}:Body`);
+}
+
 /**
  * Recursively serializes a JSON value into XML without schema guidance.
  * Used for xs:any pass-through content.
@@ -57,52 +212,233 @@ function buildWildcardValue(
   node: XMLBuilder,
   value: JsonValue,
   path: string,
-  attributePrefix: string,
-  textNodeKey: string,
+  options: BuildOptions,
 ): void {
+  const { attributePrefix, textNodeKey } = options;
   if (value === null || value === undefined) return;
-  if (typeof value !== 'object') {
-    node.txt(String(value));
+  if (!isJsonObject(value) && !Array.isArray(value)) {
+    node.txt(toLexical(value, ANY_SIMPLE_TYPE, path, options));
     return;
   }
   if (Array.isArray(value)) {
     // Unexpected top-level array in wildcard — best-effort: emit as text
-    node.txt(JSON.stringify(value));
+    node.txt(JSON.stringify(value, (_, v) => (typeof v === 'bigint' ? String(v) : v)));
     return;
   }
-  const obj = value as JsonObject;
-  for (const [key, val] of Object.entries(obj)) {
+  for (const [key, val] of Object.entries(value)) {
     if (val === null || val === undefined) continue;
     if (key === textNodeKey) {
-      node.txt(String(val));
+      node.txt(toLexical(val, ANY_SIMPLE_TYPE, `${path}.${key}`, options));
       continue;
     }
     if (key.startsWith(attributePrefix)) {
-      node.att(key.slice(attributePrefix.length), String(val));
+      const text = toLexical(val, ANY_SIMPLE_TYPE, `${path}.${key}`, options);
+      node.att(key.slice(attributePrefix.length), text);
       continue;
     }
     if (Array.isArray(val)) {
       for (let i = 0; i < val.length; i++) {
         const childNode = node.ele(key);
-        buildWildcardValue(
-          childNode,
-          val[i] as JsonValue,
-          `${path}.${key}[${i}]`,
-          attributePrefix,
-          textNodeKey,
-        );
+        buildWildcardValue(childNode, val[i] as JsonValue, `${path}.${key}[${i}]`, options);
       }
     } else {
       const childNode = node.ele(key);
-      buildWildcardValue(
-        childNode,
-        val as JsonValue,
-        `${path}.${key}`,
-        attributePrefix,
-        textNodeKey,
+      buildWildcardValue(childNode, val as JsonValue, `${path}.${key}`, options);
+    }
+  }
+}
+
+/** State shared while emitting the children of one complex element. */
+interface ContentContext {
+  obj: JsonObject;
+  walker: SchemaWalker;
+  options: BuildOptions;
+  ns: NamespaceContext;
+  path: string;
+  /** Lowercased names already emitted, so elements repeated across choice branches appear once. */
+  emitted: Set<string>;
+}
+
+/**
+ * Number of passes needed for a repeating model group: the longest array
+ * given for a member element that does not repeat on its own.
+ */
+function repeatCount(group: ModelGroup, ctx: ContentContext): number {
+  let count = 1;
+  for (const el of flattenElements(group)) {
+    const value = lookupCI(ctx.obj, el.name);
+    if (!el.isArray && Array.isArray(value) && !isListElement(el, ctx.walker)) {
+      count = Math.max(count, value.length);
+    }
+  }
+  return count;
+}
+
+/** True for a single-occurrence element of an xs:list type, which takes its items as a JSON array. */
+function isListElement(el: ElementDef, walker: SchemaWalker): boolean {
+  return !el.isArray && walker.resolveSimpleTypeForElement(el)?.variety === 'list';
+}
+
+/**
+ * Emits the children of a model group in declared order (xs:choice and xs:all
+ * included). A repeating group (e.g. `<xs:choice maxOccurs="unbounded">`)
+ * interleaves its members: pass `i` emits the i-th item of every member
+ * given as an array, so `{ a: [1, 2], b: [3, 4] }` yields a, b, a, b.
+ *
+ * `required` tells whether the group is part of the content (as in the
+ * validator): only then are omitted elements filled in with their fixed or
+ * default values, so that no xs:choice branch is chosen by a fixed value.
+ */
+function buildParticles(
+  node: XMLBuilder,
+  group: ModelGroup,
+  ctx: ContentContext,
+  required: boolean,
+  index?: number,
+): void {
+  if (index === undefined && isRepeatable(group)) {
+    const passes = repeatCount(group, ctx);
+    for (let i = 0; i < passes; i++) {
+      buildParticles(node, group, { ...ctx, emitted: new Set(ctx.emitted) }, required, i);
+    }
+    for (const el of flattenElements(group)) ctx.emitted.add(el.name.toLowerCase());
+    return;
+  }
+  const choice = group.compositor === 'choice';
+  if (choice && index === undefined && ctx.options.exclusiveChoice) {
+    const branches = givenChoiceBranches(group, ctx.obj);
+    if (!isSingleChoiceBranch(branches, ctx.obj)) {
+      throw new XsdMappingError(
+        ctx.path,
+        `Only one branch of the choice may be given, but ${branches.map(branchLabel).join(', ')} were given.`,
       );
     }
   }
+  for (const particle of group.particles) {
+    if (particle.kind === 'group') {
+      const groupRequired = choice
+        ? isGroupPresent(particle, ctx.obj)
+        : isGroupRequired(particle, ctx.obj, required);
+      buildParticles(node, particle, ctx, groupRequired, index);
+    } else if (particle.kind === 'element') {
+      buildChild(node, particle.element, ctx, required && !choice, index);
+    }
+  }
+}
+
+/**
+ * Value written for an element the JSON omits: the fixed value of a required
+ * element, or with `elementDefaults` the default (or fixed) value of any element.
+ */
+function omittedValue(el: ElementDef, options: BuildOptions): string | undefined {
+  if (options.elementDefaults) return el.default ?? el.fixed;
+  return el.minOccurs > 0 ? el.fixed : undefined;
+}
+
+function buildChild(
+  node: XMLBuilder,
+  el: ElementDef,
+  ctx: ContentContext,
+  required: boolean,
+  index?: number,
+): void {
+  const key = el.name.toLowerCase();
+  if (ctx.emitted.has(key)) return;
+  ctx.emitted.add(key);
+
+  const { walker, options, ns, path } = ctx;
+  const value = lookupCI(ctx.obj, el.name);
+  if (value === undefined) {
+    // Skip optional missing elements, unless they have a value to fill in
+    const filled = required ? omittedValue(el, options) : undefined;
+    if (filled === undefined || (index !== undefined && index > 0)) return;
+    const childNode = createChild(node, el, ns);
+    buildElement(childNode, el, filled, walker, options, ns, `${path}.${el.name}`);
+    return;
+  }
+  if (value === null) {
+    if (index !== undefined && index > 0) return;
+    if (el.minOccurs === 0 && !writesNull(el, options.nullHandling)) return;
+    const childNode = createChild(node, el, ns);
+    buildElement(childNode, el, null, walker, options, ns, `${path}.${el.name}`);
+    return;
+  }
+
+  const occurrences = Array.isArray(value) && !isListElement(el, walker);
+  if (index !== undefined && !el.isArray && occurrences) {
+    // Member of a repeating group: one item per pass
+    if (index < value.length) {
+      const childNode = createChild(node, el, ns);
+      const childPath = `${path}.${el.name}[${index}]`;
+      buildElement(childNode, el, value[index], walker, options, ns, childPath);
+    }
+    return;
+  }
+  // Elements that are not spread over the passes of a repeating group go out once
+  if (index !== undefined && index > 0) return;
+
+  if (occurrences) {
+    // Multiple occurrences
+    for (let i = 0; i < value.length; i++) {
+      const childNode = createChild(node, el, ns);
+      buildElement(childNode, el, value[i], walker, options, ns, `${path}.${el.name}[${i}]`);
+    }
+  } else {
+    const childNode = createChild(node, el, ns);
+    buildElement(childNode, el, value, walker, options, ns, `${path}.${el.name}`);
+  }
+}
+
+/** Whether a `null` optional element is written at all under the `nullHandling` option. */
+function writesNull(el: ElementDef, nullHandling: NullHandling): boolean {
+  return nullHandling === 'empty' || (nullHandling === 'nil' && el.nillable === true);
+}
+
+/**
+ * Handles the reserved `@xsi:type` key: resolves the named subtype, writes the
+ * xsi:type attribute (the type name is prefixed unless it is in the default
+ * namespace in scope) and returns the element retyped accordingly. Returns `el`
+ * unchanged without the key.
+ */
+function applyXsiType(
+  node: XMLBuilder,
+  el: ElementDef,
+  value: JsonValue,
+  walker: SchemaWalker,
+  options: BuildOptions,
+  ns: NamespaceContext,
+  path: string,
+): ElementDef {
+  if (!isJsonObject(value)) return el;
+  const typeName = lookupCI(value, `${options.attributePrefix}xsi:type`);
+  if (typeName === undefined || typeName === null) return el;
+  const typed = walker.resolveXsiType(el, String(typeName));
+  const ct = typed && walker.resolveComplexTypeForElement(typed);
+  if (!typed || !ct) {
+    throw new XsdMappingError(
+      `${path}.${options.attributePrefix}xsi:type`,
+      `xsi:type "${typeName}" is not a complex type derived from the declared type of "${el.name}".`,
+    );
+  }
+  const inScope = ct.namespace === ns.scopes.get(node);
+  const qname = ct.namespace && !inScope ? `${prefixFor(ct.namespace, ns)}:${ct.name}` : ct.name;
+  node.att(`${prefixFor(XSI_NAMESPACE, ns)}:type`, qname);
+  return typed;
+}
+
+/**
+ * Text of a simple value (element text, attribute value or xs:simpleContent
+ * text): the value returned by the matching transformer, in the lexical form of
+ * its type.
+ */
+function simpleText(value: JsonValue, context: TransformContext, options: BuildOptions): string {
+  const transformed = applyTransformer(
+    options.transformers,
+    value,
+    context,
+    options.attributePrefix,
+  );
+  return toLexical(transformed, context.type, context.path, options);
 }
 
 function buildElement(
@@ -111,11 +447,18 @@ function buildElement(
   value: JsonValue,
   walker: SchemaWalker,
   options: BuildOptions,
+  ns: NamespaceContext,
   path: string,
 ): void {
   const { attributePrefix, textNodeKey } = options;
 
-  // Handle array values — only called for children, root arrays unwrapped by caller
+  // Handle array values — only called for children, root arrays unwrapped by caller.
+  // The items of a single xs:list element are serialized as whitespace-separated text.
+  if (Array.isArray(value) && isListElement(el, walker)) {
+    const type = valueType(el.typeName, walker.resolveSimpleTypeForElement(el));
+    node.txt(simpleText(value, { path, element: el, type, typeName: el.typeName }, options));
+    return;
+  }
   if (Array.isArray(value)) {
     throw new XsdMappingError(
       path,
@@ -124,71 +467,80 @@ function buildElement(
   }
 
   if (value === null || value === undefined) {
-    // Emit empty element
+    // Nillable elements are written as xsi:nil="true", unless optional ones are wanted empty
+    const empty = options.nullHandling === 'empty' && el.minOccurs === 0;
+    if (value === null && el.nillable && !empty) {
+      node.att(`${prefixFor(XSI_NAMESPACE, ns)}:nil`, 'true');
+    }
     return;
   }
 
-  const ct = walker.resolveComplexTypeForElement(el);
+  // xsi:type — build the element from the content model of the named subtype
+  const typed = applyXsiType(node, el, value, walker, options, ns, path);
+  const ct = walker.resolveComplexTypeForElement(typed);
 
   if (!ct) {
-    // Simple type — serialize as text content
-    node.txt(String(value));
+    // Simple type — serialize as text content, in the lexical form of the type
+    const type = valueType(typed.typeName, walker.resolveSimpleTypeForElement(typed));
+    const context = { path, element: typed, type, typeName: typed.typeName };
+    node.txt(simpleText(value, context, options));
     return;
   }
 
-  if (typeof value !== 'object') {
+  if (!isJsonObject(value)) {
     // Scalar value for a complex type — write as text (best-effort)
-    node.txt(String(value));
+    const context = { path, element: typed, type: ct.textType ?? ANY_SIMPLE_TYPE };
+    node.txt(simpleText(value, context, options));
     return;
   }
 
-  const obj = value as JsonObject;
+  const obj = value;
 
   // Apply attributes — lookup is case-insensitive; the attribute name in XML
   // always mirrors the schema declaration (attrDef.name), not the JSON key.
-  for (const attrDef of walker.getAttributesForElement(el)) {
+  for (const attrDef of walker.getAttributesForElement(typed)) {
     const key = `${attributePrefix}${attrDef.name}`;
     const attrValue = lookupCI(obj, key);
-    if (attrValue !== undefined && attrValue !== null) {
-      node.att(attrDef.name, String(attrValue));
-    } else if (attrDef.default !== undefined) {
-      node.att(attrDef.name, attrDef.default);
+    const context: TransformContext = {
+      path: `${path}.${key}`,
+      element: typed,
+      attribute: attrDef,
+      type: valueType(attrDef.type, walker.resolveSimpleTypeForAttribute(attrDef)),
+      typeName: attrDef.type || undefined,
+    };
+    const text =
+      attrValue !== undefined && attrValue !== null
+        ? simpleText(attrValue, context, options)
+        : (attrDef.fixed ?? attrDef.default);
+    if (text === undefined) continue;
+    // Qualified attributes always need a prefix: the default namespace does not apply to them
+    if (attrDef.namespace) {
+      node.att(`${prefixFor(attrDef.namespace, ns)}:${attrDef.name}`, text);
+    } else {
+      node.att(attrDef.name, text);
     }
   }
 
   // Apply text content if xs:simpleContent
   if (ct.hasTextContent && obj[textNodeKey] !== undefined) {
-    node.txt(String(obj[textNodeKey]));
+    const type = ct.textType ?? ANY_SIMPLE_TYPE;
+    const context = { path: `${path}.${textNodeKey}`, element: typed, type };
+    node.txt(simpleText(obj[textNodeKey], context, options));
     return;
   }
 
-  // Apply child elements — lookup is case-insensitive; the element tag in XML
-  // always mirrors the schema declaration (childEl.name), not the JSON key.
-  const resolvedChildren = walker.getChildElementsForElement(el);
-  // Keep a lowercased set for xs:any wildcard filtering (O(1) check)
-  const knownChildNames = lowerSet(resolvedChildren.map((c) => c.name));
-  for (const childEl of resolvedChildren) {
-    const childValue = lookupCI(obj, childEl.name);
-    if (childValue === undefined || childValue === null) {
-      // Skip optional missing elements
-      continue;
-    }
-
-    if (Array.isArray(childValue)) {
-      // Multiple occurrences
-      for (let i = 0; i < childValue.length; i++) {
-        const item = childValue[i];
-        const childNode = node.ele(childEl.name);
-        buildElement(childNode, childEl, item, walker, options, `${path}.${childEl.name}[${i}]`);
-      }
-    } else {
-      const childNode = node.ele(childEl.name);
-      buildElement(childNode, childEl, childValue, walker, options, `${path}.${childEl.name}`);
-    }
+  // Apply child elements by walking the content model — lookup is case-insensitive;
+  // the element tag in XML always mirrors the schema declaration, not the JSON key.
+  const content = walker.getContentModelForElement(typed);
+  if (content) {
+    const ctx: ContentContext = { obj, walker, options, ns, path, emitted: new Set() };
+    buildParticles(node, content, ctx, isGroupRequired(content, obj, true));
   }
+  // Keep a lowercased set for xs:any wildcard filtering (O(1) check)
+  const knownChildNames = lowerSet(walker.getChildElementsForElement(typed).map((c) => c.name));
 
   // xs:any pass-through: emit JSON keys that are not mapped by any schema child
-  if (walker.hasWildcardForElement(el)) {
+  if (walker.hasWildcardForElement(typed)) {
     for (const key of Object.keys(obj)) {
       if (key === textNodeKey) continue;
       if (key.startsWith(attributePrefix)) continue;
@@ -198,23 +550,12 @@ function buildElement(
       if (Array.isArray(wildcardValue)) {
         for (let i = 0; i < wildcardValue.length; i++) {
           const childNode = node.ele(key);
-          buildWildcardValue(
-            childNode,
-            wildcardValue[i] as JsonValue,
-            `${path}.${key}[${i}]`,
-            attributePrefix,
-            textNodeKey,
-          );
+          const itemPath = `${path}.${key}[${i}]`;
+          buildWildcardValue(childNode, wildcardValue[i] as JsonValue, itemPath, options);
         }
       } else {
         const childNode = node.ele(key);
-        buildWildcardValue(
-          childNode,
-          wildcardValue as JsonValue,
-          `${path}.${key}`,
-          attributePrefix,
-          textNodeKey,
-        );
+        buildWildcardValue(childNode, wildcardValue as JsonValue, `${path}.${key}`, options);
       }
     }
   }
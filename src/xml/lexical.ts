@@ -0,0 +1,275 @@
+import type { TimezonePolicy } from '../schema.js';
+import type { JsonValue } from '../types.js';
+import { XsdSerializationError } from '../validation/errors.js';
+import type { ValidationIssue } from '../validation/errors.js';
+import { XS_INTEGER_TYPES, normalizeBuiltinType } from '../xsd/builtins.js';
+import type { SimpleTypeDef } from '../xsd/types.js';
+
+/** Settings of `toLexical`. */
+export interface LexicalOptions {
+  /** Timezone of the Date values written for date/time types. */
+  timezone: TimezonePolicy;
+  /** Called for values written that may not be what was meant (unsafe integers). */
+  onWarning?: (warning: ValidationIssue) => void;
+}
+
+/** Type of values without a declared simple type: written as given. */
+export const ANY_SIMPLE_TYPE: SimpleTypeDef = { name: '', base: 'xs:anySimpleType', facets: {} };
+
+/**
+ * The simple type a value is written as: the resolved SimpleTypeDef when there
+ * is one, otherwise the built-in type `typeName` names, as a type named after
+ * its base (xs:anySimpleType when it names none).
+ */
+export function valueType(
+  typeName: string | undefined,
+  st: SimpleTypeDef | undefined,
+): SimpleTypeDef {
+  if (st) return st;
+  const builtin = typeName ? normalizeBuiltinType(typeName) : undefined;
+  return builtin ? { name: builtin, base: builtin, facets: {} } : ANY_SIMPLE_TYPE;
+}
+
+const TEMPORAL_TYPES = new Set([
+  'xs:dateTime',
+  'xs:date',
+  'xs:time',
+  'xs:gYear',
+  'xs:gYearMonth',
+  'xs:gMonth',
+  'xs:gMonthDay',
+  'xs:gDay',
+]);
+
+const BINARY_TYPES = new Set(['xs:base64Binary', 'xs:hexBinary']);
+
+const BASE64_DIGITS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+function toBase64(bytes: Uint8Array): string {
+  let text = '';
+  for (let i = 0; i < bytes.length; i += 3) {
+    const n = (bytes[i] << 16) | ((bytes[i + 1] ?? 0) << 8) | (bytes[i + 2] ?? 0);
+    text += BASE64_DIGITS[(n >> 18) & 63] + BASE64_DIGITS[(n >> 12) & 63];
+    text += i + 1 < bytes.length ? BASE64_DIGITS[(n >> 6) & 63] : '=';
+    text += i + 2 < bytes.length ? BASE64_DIGITS[n & 63] : '=';
+  }
+  return text;
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, '0'))
+    .join('')
+    .toUpperCase();
+}
+
+/** Rewrites a number in exponent notation ("1e+21", "1.5e-7") as plain decimal digits. */
+function expandExponent(text: string): string {
+  const match = /^(-?)(\d+)(?:\.(\d+))?e([+-]\d+)$/.exec(text);
+  if (!match) return text;
+  const [, sign, int, fraction = '', exponent] = match;
+  const digits = int + fraction;
+  const point = int.length + Number(exponent);
+  if (point <= 0) return `${sign}0.${'0'.repeat(-point)}${digits}`;
+  if (point >= digits.length) return sign + digits + '0'.repeat(point - digits.length);
+  return `${sign}${digits.slice(0, point)}.${digits.slice(point)}`;
+}
+
+/**
+ * xs:decimal form of a number or bigint: never in exponent notation, and padded
+ * with zeros to `fractionDigits` when the type declares the facet. Numbers with
+ * more fraction digits are not rounded: the facet reports them in strict mode.
+ */
+function decimalText(value: number | bigint, fractionDigits: number | undefined): string {
+  const text = expandExponent(String(value));
+  const [int, fraction = ''] = text.split('.');
+  if (fractionDigits === undefined || fraction.length >= fractionDigits) return text;
+  return `${int}.${fraction.padEnd(fractionDigits, '0')}`;
+}
+
+const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+
+/** `+hh:mm` / `-hh:mm` suffix of an offset in minutes; `Z` for UTC. */
+function offsetSuffix(minutes: number): string {
+  if (minutes === 0) return 'Z';
+  const abs = Math.abs(minutes);
+  return `${minutes < 0 ? '-' : '+'}${pad(Math.floor(abs / 60))}:${pad(abs % 60)}`;
+}
+
+/** Offset from UTC (in minutes) a Date is written in, and the timezone suffix written with it. */
+function zoneOf(date: Date, timezone: TimezonePolicy): [number, string] {
+  if (timezone === 'utc') return [0, 'Z'];
+  const local = -date.getTimezoneOffset();
+  if (timezone === 'local') return [local, offsetSuffix(local)];
+  if (timezone === 'none') return [local, ''];
+  const match = /^([+-])(\d{2}):(\d{2})$/.exec(timezone);
+  if (!match) {
+    throw new RangeError(
+      `Invalid timezone "${timezone}": expected 'utc', 'local', 'none' or an offset such as '-03:00'.`,
+    );
+  }
+  const minutes = (match[1] === '-' ? -1 : 1) * (Number(match[2]) * 60 + Number(match[3]));
+  return [minutes, offsetSuffix(minutes)];
+}
+
+/** Lexical form of a Date for a date/time type, in the time of the timezone policy. */
+function dateText(date: Date, base: string, timezone: TimezonePolicy): string {
+  const [offset, suffix] = zoneOf(date, timezone);
+  const d = new Date(date.getTime() + offset * 60_000);
+  const year = d.getUTCFullYear();
+  const yyyy = `${year < 0 ? '-' : ''}${pad(Math.abs(year), 4)}`;
+  const mm = pad(d.getUTCMonth() + 1);
+  const dd = pad(d.getUTCDate());
+  const ms = d.getUTCMilliseconds();
+  const seconds = `${pad(d.getUTCSeconds())}${ms ? `.${pad(ms, 3).replace(/0+$/, '')}` : ''}`;
+  const time = `${pad(d.getUTCHours())}:${pad(d.getUTCMinutes())}:${seconds}`;
+  switch (base) {
+    case 'xs:date':
+      return `${yyyy}-${mm}-${dd}${suffix}`;
+    case 'xs:time':
+      return `${time}${suffix}`;
+    case 'xs:gYear':
+      return `${yyyy}${suffix}`;
+    case 'xs:gYearMonth':
+      return `${yyyy}-${mm}${suffix}`;
+    case 'xs:gMonth':
+      return `--${mm}${suffix}`;
+    case 'xs:gMonthDay':
+      return `--${mm}-${dd}${suffix}`;
+    case 'xs:gDay':
+      return `---${dd}${suffix}`;
+    default:
+      return `${yyyy}-${mm}-${dd}T${time}${suffix}`;
+  }
+}
+
+function describeValue(value: JsonValue): string {
+  if (value instanceof Date) {
+    return Number.isNaN(value.getTime()) ? 'Invalid Date' : `Date ${value.toISOString()}`;
+  }
+  if (value instanceof Uint8Array) return `Binary value (${value.length} bytes)`;
+  if (Array.isArray(value)) return 'Array';
+  if (value !== null && typeof value === 'object') return 'Object';
+  if (typeof value === 'bigint') return `BigInt ${value}`;
+  return `${typeof value === 'number' ? 'Number' : 'Boolean'} ${value}`;
+}
+
+/** Lexical form of a value of an atomic type: strings as given, other values in canonical form. */
+function atomicText(
+  value: JsonValue,
+  type: SimpleTypeDef,
+  path: string,
+  options: LexicalOptions,
+): string {
+  if (typeof value === 'string') return value;
+  if (value === null) return '';
+  const { timezone } = options;
+  const base = type.base;
+  const label = type.name && type.name !== base ? `${base} (type "${type.name}")` : base;
+  const fail = (detail?: string) => {
+    const reason = `${describeValue(value)} cannot be written as ${label}${detail ? `: ${detail}` : ''}.`;
+    return new XsdSerializationError(path, base, reason);
+  };
+  const validDate = value instanceof Date && !Number.isNaN(value.getTime());
+
+  if (base === 'xs:boolean') {
+    if (typeof value === 'boolean') return String(value);
+    if (value === 0 || value === 1) return value === 1 ? 'true' : 'false';
+    throw fail();
+  }
+  if (typeof value === 'bigint') {
+    if (base === 'xs:decimal') return decimalText(value, type.facets.fractionDigits);
+    if (base === 'xs:boolean' || TEMPORAL_TYPES.has(base) || BINARY_TYPES.has(base)) throw fail();
+    return String(value);
+  }
+  if (XS_INTEGER_TYPES.has(base)) {
+    if (typeof value === 'number' && Number.isInteger(value)) {
+      if (!Number.isSafeInteger(value)) {
+        options.onWarning?.({
+          path,
+          message: `Number ${value} for ${label} is beyond Number.MAX_SAFE_INTEGER and may not be exact; give it as a bigint or a string.`,
+        });
+      }
+      return BigInt(value).toString();
+    }
+    throw fail(typeof value === 'number' ? 'not an integer' : undefined);
+  }
+  if (base === 'xs:decimal') {
+    if (typeof value === 'number' && Number.isFinite(value)) {
+      return decimalText(value, type.facets.fractionDigits);
+    }
+    throw fail();
+  }
+  if (base === 'xs:float' || base === 'xs:double') {
+    if (typeof value !== 'number') throw fail();
+    if (Number.isNaN(value)) return 'NaN';
+    if (!Number.isFinite(value)) return value > 0 ? 'INF' : '-INF';
+    return String(value);
+  }
+  if (TEMPORAL_TYPES.has(base)) {
+    if (validDate) return dateText(value, base, timezone);
+    if (base === 'xs:gYear' && typeof value === 'number' && Number.isInteger(value)) {
+      return String(value);
+    }
+    throw fail();
+  }
+  if (BINARY_TYPES.has(base)) {
+    if (value instanceof Uint8Array) {
+      return base === 'xs:base64Binary' ? toBase64(value) : toHex(value);
+    }
+    throw fail();
+  }
+  // String types, xs:anySimpleType and the remaining built-ins
+  if (validDate) return dateText(value, 'xs:dateTime', timezone);
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  throw fail();
+}
+
+/**
+ * Writes a value in the lexical space of its simple type (see `valueType`).
+ * Strings are written as given; numbers, booleans, Dates and binary values
+ * (Uint8Array, e.g. a Buffer) in the canonical form of the built-in base:
+ *
+ * - xs:boolean: `true` / `false` (also from `1` / `0`)
+ * - integer types: bigints, and integral numbers without exponent (`1e21` →
+ *   `1000000000000000000000`); numbers beyond `Number.MAX_SAFE_INTEGER` are
+ *   reported to `onWarning`, as they may already have lost precision
+ * - xs:decimal: numbers and bigints without exponent, padded to `fractionDigits`
+ *   when the type declares it (decimal strings keep every digit)
+ * - xs:float / xs:double: `INF`, `-INF` and `NaN` for the special values
+ * - xs:dateTime, xs:date, xs:time and the xs:g* types: Dates, in the time of `timezone`
+ * - xs:base64Binary / xs:hexBinary: binary values
+ *
+ * The items of an xs:list are given as a JSON array; an xs:union value is
+ * written as the first member type that can represent it.
+ *
+ * @throws `XsdSerializationError` when the value cannot be represented in the type.
+ */
+export function toLexical(
+  value: JsonValue,
+  type: SimpleTypeDef,
+  path: string,
+  options: LexicalOptions,
+): string {
+  if (type.variety === 'list' || Array.isArray(value)) {
+    const itemType = type.variety === 'list' ? (type.itemType ?? ANY_SIMPLE_TYPE) : type;
+    if (!Array.isArray(value)) return toLexical(value, itemType, path, options);
+    return value.map((item, i) => toLexical(item, itemType, `${path}[${i}]`, options)).join(' ');
+  }
+  if (type.variety === 'union' && typeof value !== 'string' && type.memberTypes?.length) {
+    for (const member of type.memberTypes) {
+      try {
+        return toLexical(value, member, path, options);
+      } catch (err) {
+        if (!(err instanceof XsdSerializationError)) throw err;
+      }
+    }
+    const names = type.memberTypes.map((m) => m.name || m.base).join(', ');
+    const label = type.name ? `type "${type.name}"` : 'the anonymous union type';
+    throw new XsdSerializationError(
+      path,
+      type.base,
+      `${describeValue(value)} cannot be written as any member type of ${label} (${names}).`,
+    );
+  }
+  return atomicText(value, type, path, options);
+}
@@ -0,0 +1,98 @@
+import { localName } from '../utils.js';
+import type { SchemaModel } from './types.js';
+
+/**
+ * Built-in XSD simple types, keyed by their canonical `xs:`-prefixed name.
+ * Values that reference any of these map to text content.
+ */
+export const XS_SIMPLE_TYPES = new Set([
+  'xs:anySimpleType',
+  'xs:string',
+  'xs:normalizedString',
+  'xs:token',
+  'xs:language',
+  'xs:Name',
+  'xs:NCName',
+  'xs:NMTOKEN',
+  'xs:NMTOKENS',
+  'xs:ID',
+  'xs:IDREF',
+  'xs:IDREFS',
+  'xs:ENTITY',
+  'xs:ENTITIES',
+  'xs:QName',
+  'xs:NOTATION',
+  'xs:anyURI',
+  'xs:boolean',
+  'xs:decimal',
+  'xs:integer',
+  'xs:long',
+  'xs:int',
+  'xs:short',
+  'xs:byte',
+  'xs:positiveInteger',
+  'xs:nonNegativeInteger',
+  'xs:negativeInteger',
+  'xs:nonPositiveInteger',
+  'xs:unsignedLong',
+  'xs:unsignedInt',
+  'xs:unsignedShort',
+  'xs:unsignedByte',
+  'xs:float',
+  'xs:double',
+  'xs:duration',
+  'xs:dateTime',
+  'xs:date',
+  'xs:time',
+  'xs:gYear',
+  'xs:gYearMonth',
+  'xs:gMonth',
+  'xs:gMonthDay',
+  'xs:gDay',
+  'xs:base64Binary',
+  'xs:hexBinary',
+  'xs:anyType',
+]);
+
+/** Built-in types derived from xs:integer, whose values are written without a fraction. */
+export const XS_INTEGER_TYPES = new Set([
+  'xs:integer',
+  'xs:long',
+  'xs:int',
+  'xs:short',
+  'xs:byte',
+  'xs:positiveInteger',
+  'xs:nonNegativeInteger',
+  'xs:negativeInteger',
+  'xs:nonPositiveInteger',
+  'xs:unsignedLong',
+  'xs:unsignedInt',
+  'xs:unsignedShort',
+  'xs:unsignedByte',
+]);
+
+/**
+ * Maps a built-in type reference to its canonical `xs:` form, whatever prefix
+ * the schema used for the XSD namespace (`xs:`, `xsd:` or none at all in
+ * default-namespace schemas such as TISS). Returns `undefined` when the name
+ * is not a built-in type.
+ *
+ * An unprefixed name only stands for a built-in type when `definitions` has no
+ * simple or complex type of that name: in a no-namespace schema, `date` is the
+ * schema's own type when it defines one. The parser writes the unprefixed
+ * references of default-namespace schemas with `xs:`, so these stay built-ins.
+ *
+ * e.g. "string" → "xs:string", "xsd:decimal" → "xs:decimal", "ans:st_texto" → undefined
+ */
+export function normalizeBuiltinType(
+  name: string,
+  definitions?: Pick<SchemaModel, 'simpleTypes' | 'complexTypes'>,
+): string | undefined {
+  if (XS_SIMPLE_TYPES.has(name)) return name;
+  if (name.includes(':') && !name.startsWith('xsd:')) return undefined;
+  if (definitions && !name.includes(':')) {
+    if (definitions.simpleTypes.has(name) || definitions.complexTypes.has(name)) return undefined;
+  }
+  const prefixed = `xs:${localName(name)}`;
+  return XS_SIMPLE_TYPES.has(prefixed) ? prefixed : undefined;
+}
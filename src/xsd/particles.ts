@@ -0,0 +1,103 @@
+import type { JsonObject } from '../types.js';
+import { lookupCI } from '../utils.js';
+import type { ElementDef, ModelGroup, Particle } from './types.js';
+
+/**
+ * Collects the element declarations of a particle tree in document order,
+ * descending into nested compositors. Unresolved xs:group references and
+ * wildcards contribute nothing.
+ */
+export function flattenElements(group: ModelGroup | undefined): ElementDef[] {
+  if (!group) return [];
+  return group.particles.flatMap((p) => {
+    if (p.kind === 'element') return [p.element];
+    if (p.kind === 'group') return flattenElements(p);
+    return [];
+  });
+}
+
+/**
+ * Returns true when a particle tree contains xs:any at any depth.
+ */
+export function containsWildcard(group: ModelGroup | undefined): boolean {
+  if (!group) return false;
+  return group.particles.some(
+    (p) => p.kind === 'any' || (p.kind === 'group' && containsWildcard(p)),
+  );
+}
+
+/**
+ * Returns true when a particle may occur more than once (maxOccurs > 1 or unbounded).
+ */
+export function isRepeatable(particle: { maxOccurs: number | 'unbounded' }): boolean {
+  return particle.maxOccurs === 'unbounded' || particle.maxOccurs > 1;
+}
+
+/** True when the element is given (non-null) in the JSON object. */
+export function isElementPresent(el: ElementDef, obj: JsonObject): boolean {
+  const value = lookupCI(obj, el.name);
+  return value !== undefined && value !== null;
+}
+
+/** True when at least one element of the model group is given in the JSON object. */
+export function isGroupPresent(group: ModelGroup, obj: JsonObject): boolean {
+  return flattenElements(group).some((el) => isElementPresent(el, obj));
+}
+
+/**
+ * A model group's required members are enforced when the group itself is
+ * required (its parent is, and minOccurs > 0) or when any of its members is present.
+ */
+export function isGroupRequired(
+  group: ModelGroup,
+  obj: JsonObject,
+  parentRequired: boolean,
+): boolean {
+  return (parentRequired && group.minOccurs > 0) || isGroupPresent(group, obj);
+}
+
+/** True when a particle may be left out entirely: it is optional, or all of its content is. */
+export function isEmptiable(particle: Particle): boolean {
+  if (particle.kind === 'element') return particle.element.minOccurs === 0;
+  if (particle.kind !== 'group' || particle.minOccurs === 0) return true;
+  return particle.compositor === 'choice'
+    ? particle.particles.length === 0 || particle.particles.some(isEmptiable)
+    : particle.particles.every(isEmptiable);
+}
+
+/** The branches of an xs:choice given (at least in part) in the JSON object. */
+export function givenChoiceBranches(group: ModelGroup, obj: JsonObject): Particle[] {
+  return group.particles.filter((p) => {
+    if (p.kind === 'element') return isElementPresent(p.element, obj);
+    return p.kind === 'group' && isGroupPresent(p, obj);
+  });
+}
+
+/**
+ * True when the given branches of an xs:choice amount to one: a single branch
+ * holds every element given (an element may belong to several branches).
+ */
+export function isSingleChoiceBranch(branches: Particle[], obj: JsonObject): boolean {
+  if (branches.length < 2) return true;
+  const elementsOf = (p: Particle) =>
+    p.kind === 'element' ? [p.element] : p.kind === 'group' ? flattenElements(p) : [];
+  const given = branches
+    .flatMap(elementsOf)
+    .filter((el) => isElementPresent(el, obj))
+    .map((el) => el.name.toLowerCase());
+  return branches.some((branch) => {
+    const names = new Set(elementsOf(branch).map((el) => el.name.toLowerCase()));
+    return given.every((name) => names.has(name));
+  });
+}
+
+/** Name of a choice branch in messages: the element name, or the group's elements in parentheses. */
+export function branchLabel(particle: Particle): string {
+  if (particle.kind === 'element') return `"${particle.element.name}"`;
+  if (particle.kind === 'group') {
+    return `(${flattenElements(particle)
+      .map((el) => `"${el.name}"`)
+      .join(', ')})`;
+  }
+  return 'xs:any';
+}
@@ -0,0 +1,124 @@
+import { readFile } from 'node:fs/promises';
+import { dirname, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { XMLParser } from 'fast-xml-parser';
+import { type SchemaResolver, isUrl } from './resolvers.js';
+
+/**
+ * Resolves locations as filesystem paths: relative to the including schema's
+ * directory, or to `baseDir` (default `process.cwd()`) for the main schema.
+ */
+export function fileSystemResolver(baseDir?: string): SchemaResolver {
+  return {
+    async resolve({ location, base }) {
+      if (isUrl(location) && !location.startsWith('file:')) {
+        throw new Error(`Cannot read "${location}" from the filesystem (use a catalog resolver).`);
+      }
+      const path = location.startsWith('file:') ? fileURLToPath(location) : location;
+      const id = base ? resolve(dirname(base), path) : resolve(baseDir ?? '', path);
+      return { id, content: await readFile(id) };
+    },
+  };
+}
+
+/** Entries of an OASIS XML catalog that map schema locations and namespaces. */
+interface CatalogEntries {
+  /** uri name="…" → uri="…" (matched against locations and import namespaces). */
+  uri: Map<string, string>;
+  /** system systemId="…" → uri="…". */
+  system: Map<string, string>;
+  /** rewriteSystem / rewriteURI: start string → rewrite prefix, longest first. */
+  rewrite: [string, string][];
+}
+
+/**
+ * Options for `catalogResolver`.
+ */
+export interface CatalogResolverOptions {
+  /**
+   * Resolver for locations the catalog does not map, and for the mapped
+   * targets. Defaults to a `fileSystemResolver` whose base directory is the
+   * catalog's, so relative locations read without an including schema are
+   * looked up next to the catalog.
+   */
+  fallback?: SchemaResolver;
+}
+
+/**
+ * Maps schema locations (typically absolute URLs such as the W3C xmldsig
+ * schema) to local copies through an OASIS XML Catalog file. Supports `uri`,
+ * `system`, `rewriteSystem` and `rewriteURI` entries (also inside `group`);
+ * relative targets are resolved against the catalog file. An xs:import is also
+ * looked up by its namespace in the `uri` entries.
+ *
+ * @example
+ * ```xml
+ * <catalog xmlns="urn:oasis:names:tc:entity:xmlns:xml:catalog">
+ *   <system systemId="http://www.w3.org/TR/xmldsig-core/xmldsig-core-schema.xsd"
+ *           uri="vendor/xmldsig-core-schema.xsd"/>
+ *   <rewriteSystem systemIdStartString="http://www.w3.org/" rewritePrefix="vendor/w3c/"/>
+ * </catalog>
+ * ```
+ */
+export function catalogResolver(
+  catalogPath: string,
+  options: CatalogResolverOptions = {},
+): SchemaResolver {
+  const catalogFile = resolve(catalogPath);
+  const fallback = options.fallback ?? fileSystemResolver(dirname(catalogFile));
+  let entries: Promise<CatalogEntries> | undefined;
+
+  const lookup = (catalog: CatalogEntries, key: string): string | undefined => {
+    const mapped = catalog.system.get(key) ?? catalog.uri.get(key);
+    if (mapped !== undefined) return mapped;
+    const rewrite = catalog.rewrite.find(([start]) => key.startsWith(start));
+    return rewrite ? rewrite[1] + key.slice(rewrite[0].length) : undefined;
+  };
+
+  return {
+    async resolve(request) {
+      entries ??= readCatalog(catalogFile);
+      const catalog = await entries;
+      const { location, namespace, base } = request;
+      // Relative locations inside a schema loaded from a URL are URLs as well
+      const absolute =
+        base && isUrl(base) && !isUrl(location) ? new URL(location, base).href : location;
+      const mapped =
+        lookup(catalog, absolute) ?? (namespace ? catalog.uri.get(namespace) : undefined);
+      if (mapped === undefined) return fallback.resolve({ ...request, location: absolute });
+      const target = isUrl(mapped) ? mapped : resolve(dirname(catalogFile), mapped);
+      return fallback.resolve({ location: target, namespace });
+    },
+  };
+}
+
+async function readCatalog(catalogFile: string): Promise<CatalogEntries> {
+  const parser = new XMLParser({
+    ignoreAttributes: false,
+    attributeNamePrefix: '',
+    removeNSPrefix: true,
+    isArray: (_name, _path, _isLeaf, isAttribute) => !isAttribute,
+  });
+  const doc = parser.parse(await readFile(catalogFile, 'utf-8')) as Record<string, unknown[]>;
+  const catalog: CatalogEntries = { uri: new Map(), system: new Map(), rewrite: [] };
+  type Node = Record<string, unknown>;
+  const visit = (node: Node): void => {
+    for (const entry of (node.uri as Node[] | undefined) ?? []) {
+      catalog.uri.set(String(entry.name), String(entry.uri));
+    }
+    for (const entry of (node.system as Node[] | undefined) ?? []) {
+      catalog.system.set(String(entry.systemId), String(entry.uri));
+    }
+    for (const entry of (node.rewriteSystem as Node[] | undefined) ?? []) {
+      catalog.rewrite.push([String(entry.systemIdStartString), String(entry.rewritePrefix)]);
+    }
+    for (const entry of (node.rewriteURI as Node[] | undefined) ?? []) {
+      catalog.rewrite.push([String(entry.uriStartString), String(entry.rewritePrefix)]);
+    }
+    for (const group of (node.group as Node[] | undefined) ?? []) visit(group);
+  };
+  for (const root of (doc.catalog as Node[] | undefined) ?? []) visit(root);
+  // Longest matching start string wins
+  catalog.rewrite.sort(([a], [b]) => b.length - a.length);
+  return catalog;
+}
@@ -0,0 +1,82 @@
+/**
+ * A schema document requested by the parser: the main schema, or the target
+ * of an xs:include / xs:import.
+ */
+export interface SchemaRequest {
+  /** The schemaLocation as written (or the path given to `parseXsd`). */
+  location: string;
+  /** Namespace of an xs:import. */
+  namespace?: string;
+  /** Id of the schema containing the include/import; undefined for the main schema. */
+  base?: string;
+}
+
+/**
+ * A resolved schema document.
+ */
+export interface SchemaSource {
+  /**
+   * Canonical id of the document (an absolute path or URL). Relative locations
+   * inside it are resolved against this id, and documents are loaded once per id.
+   */
+  id: string;
+  /**
+   * The document text, or its raw bytes; bytes are decoded following the
+   * document's encoding declaration (UTF-8 or ISO-8859-1).
+   */
+  content: string | Uint8Array;
+}
+
+/**
+ * Locates and reads schema documents for the parser. Throws (or rejects) when
+ * the document cannot be found; the parser reports that as a diagnostic.
+ */
+export interface SchemaResolver {
+  resolve(request: SchemaRequest): Promise<SchemaSource>;
+}
+
+/** True for absolute URLs such as `http://…` or `urn:…` (but not Windows drive paths). */
+export function isUrl(location: string): boolean {
+  return /^[a-z][a-z0-9+.-]+:/i.test(location) && !/^[a-z]:[\\/]/i.test(location);
+}
+
+/** Collapses `.` and `..` segments of a `/`-separated path (like `path.posix.normalize`). */
+function normalizePath(path: string): string {
+  const segments: string[] = [];
+  for (const segment of path.split('/')) {
+    if (segment === '.' || (segment === '' && segments.length > 0)) continue;
+    if (segment === '..' && segments.length > 0 && segments[segments.length - 1] !== '..') {
+      if (segments[segments.length - 1] !== '') segments.pop();
+    } else segments.push(segment);
+  }
+  return segments.join('/');
+}
+
+/**
+ * Serves schemas from memory. Keys are ids such as `main.xsd`,
+ * `common/types.xsd` or absolute URLs; relative locations are resolved against
+ * the including schema's key like paths.
+ */
+export function memoryResolver(
+  files: Record<string, string | Uint8Array> | Map<string, string | Uint8Array>,
+): SchemaResolver {
+  const entries = new Map<string, string | Uint8Array>();
+  for (const [id, content] of files instanceof Map ? files : Object.entries(files)) {
+    entries.set(isUrl(id) ? id : normalizePath(id), content);
+  }
+  return {
+    async resolve({ location, base }) {
+      let id: string;
+      if (isUrl(location)) id = location;
+      else if (base && isUrl(base)) id = new URL(location, base).href;
+      else if (base && !location.startsWith('/')) {
+        id = normalizePath(`${base.slice(0, base.lastIndexOf('/') + 1)}${location}`);
+      } else id = normalizePath(location);
+      const content = entries.get(id);
+      if (content === undefined) {
+        throw new Error(`Schema "${id}" is not in the in-memory schema map.`);
+      }
+      return { id, content };
+    },
+  };
+}
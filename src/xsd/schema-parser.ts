@@ -0,0 +1,1483 @@
+import { XMLParser } from 'fast-xml-parser';
+import { localName } from '../utils.js';
+import { XsdParseError } from '../validation/errors.js';
+import { compilePattern } from '../validation/facets.js';
+import { normalizeBuiltinType } from './builtins.js';
+import { containsWildcard, flattenElements } from './particles.js';
+import {
+  type SchemaRequest,
+  type SchemaResolver,
+  type SchemaSource,
+  memoryResolver,
+} from './resolvers.js';
+import type {
+  Annotation,
+  AttributeDef,
+  AttributeGroupDef,
+  ComplexTypeDef,
+  Compositor,
+  ElementDef,
+  GroupDef,
+  GroupRefDef,
+  IdentityConstraintDef,
+  ModelGroup,
+  Particle,
+  SchemaDiagnostic,
+  SchemaDiagnosticCode,
+  SchemaModel,
+  SimpleTypeDef,
+  SimpleTypeFacets,
+} from './types.js';
+import { parseWsdlDefinitions, partElementKey, children as wsdlChildren } from './wsdl.js';
+
+// ---------------------------------------------------------------------------
+// Internal raw types (fast-xml-parser output)
+// ---------------------------------------------------------------------------
+
+type RawNode = Record<string, unknown>;
+
+// Local names that must always be parsed as arrays, whatever the prefix (xs:, xsd:,
+// none for default-namespace XSDs like xmldsig-core-schema.xsd, or any other a
+// WSDL binds to the XSD namespace).
+const XSD_ARRAY_LOCAL_NAMES = new Set([
+  'annotation',
+  'documentation',
+  'appinfo',
+  'element',
+  'attribute',
+  'complexType',
+  'simpleType',
+  'sequence',
+  'all',
+  'choice',
+  'include',
+  'import',
+  'enumeration',
+  'pattern',
+  'group',
+  'attributeGroup',
+  'key',
+  'unique',
+  'keyref',
+  'field',
+]);
+
+// Local names of the declarations whose relative document order matters
+// (fast-xml-parser groups siblings by tag name, losing their interleaving).
+const XSD_ORDERED_LOCAL_NAMES = new Set([
+  'key',
+  'unique',
+  'keyref',
+  'element',
+  'attribute',
+  'group',
+  'attributeGroup',
+  'sequence',
+  'choice',
+  'all',
+  'any',
+]);
+
+const XSD_NAMESPACE = 'http://www.w3.org/2001/XMLSchema';
+
+/** Synthetic attribute holding a node's document position (`#` cannot clash with XML names). */
+const ORDER_ATTR = '@_#order';
+
+// ---------------------------------------------------------------------------
+// Default-namespace normalisation (xs: prefix inferral)
+// ---------------------------------------------------------------------------
+
+/**
+ * XSD element/attribute names that appear WITHOUT a prefix when the schema
+ * declares xmlns="http://www.w3.org/2001/XMLSchema" as the default namespace.
+ * We remap them to the xs:-prefixed equivalents so the rest of the parser can
+ * work uniformly.
+ */
+const XSD_BARE_TO_PREFIXED: Record<string, string> = {
+  schema: 'xs:schema',
+  element: 'xs:element',
+  attribute: 'xs:attribute',
+  complexType: 'xs:complexType',
+  simpleType: 'xs:simpleType',
+  sequence: 'xs:sequence',
+  all: 'xs:all',
+  choice: 'xs:choice',
+  include: 'xs:include',
+  import: 'xs:import',
+  complexContent: 'xs:complexContent',
+  simpleContent: 'xs:simpleContent',
+  extension: 'xs:extension',
+  restriction: 'xs:restriction',
+  any: 'xs:any',
+  annotation: 'xs:annotation',
+  documentation: 'xs:documentation',
+  appinfo: 'xs:appinfo',
+  union: 'xs:union',
+  list: 'xs:list',
+  enumeration: 'xs:enumeration',
+  pattern: 'xs:pattern',
+  length: 'xs:length',
+  minLength: 'xs:minLength',
+  maxLength: 'xs:maxLength',
+  minInclusive: 'xs:minInclusive',
+  maxInclusive: 'xs:maxInclusive',
+  minExclusive: 'xs:minExclusive',
+  maxExclusive: 'xs:maxExclusive',
+  totalDigits: 'xs:totalDigits',
+  fractionDigits: 'xs:fractionDigits',
+  whiteSpace: 'xs:whiteSpace',
+  group: 'xs:group',
+  attributeGroup: 'xs:attributeGroup',
+  key: 'xs:key',
+  unique: 'xs:unique',
+  keyref: 'xs:keyref',
+  selector: 'xs:selector',
+  field: 'xs:field',
+};
+
+/** Attributes whose values are (lists of) QNames that may name built-in types. */
+const TYPE_REFERENCE_ATTRS = new Set(['@_type', '@_base', '@_itemType', '@_memberTypes']);
+
+/**
+ * @param aliases - Further prefixes bound to the XSD namespace (e.g. `s:` in
+ *                  .NET WSDLs); their element names and built-in type
+ *                  references are mapped to xs: as well. `''` stands for the
+ *                  default namespace: unprefixed built-in type references
+ *                  then get `xs:`, telling them apart from schema types.
+ */
+function normalizeXsPrefix(node: unknown, aliases: ReadonlySet<string> = new Set()): unknown {
+  if (Array.isArray(node)) {
+    return node.map((item) => normalizeXsPrefix(item, aliases));
+  }
+  if (node !== null && typeof node === 'object') {
+    const result: RawNode = {};
+    for (const [key, value] of Object.entries(node as RawNode)) {
+      if (TYPE_REFERENCE_ATTRS.has(key) && typeof value === 'string' && aliases.size > 0) {
+        result[key] = value.replace(
+          /(^|\s)(?:([^\s:]+):)?(?=([^\s:]+))/g,
+          (match, space: string, prefix: string | undefined, local: string) => {
+            if (prefix !== undefined) return aliases.has(prefix) ? `${space}xs:` : match;
+            const builtin = aliases.has('') && normalizeBuiltinType(`xs:${local}`) !== undefined;
+            return builtin ? `${space}xs:` : match;
+          },
+        );
+        continue;
+      }
+      // 1. Map bare XSD names (default namespace) → xs:*
+      // 2. Map xsd:* names (alternative common prefix, or an alias) → xs:*
+      let normalizedKey = XSD_BARE_TO_PREFIXED[key] ?? key;
+      const i = key.indexOf(':');
+      const prefix = key.slice(0, i);
+      if (normalizedKey === key && i > 0 && (prefix === 'xsd' || aliases.has(prefix))) {
+        const bare = key.slice(i + 1); // 'xsd:include' → 'include'
+        normalizedKey = XSD_BARE_TO_PREFIXED[bare] ?? key;
+      }
+      result[normalizedKey] = normalizeXsPrefix(value, aliases);
+    }
+    return result;
+  }
+  return node;
+}
+
+/**
+ * Normalises the XML encoding declaration to UTF-8.
+ *
+ * After `readFile(..., 'utf-8')` the file content is already a JS string (UTF-16
+ * internally). Any `encoding="ISO-8859-1"` (or similar) declaration in the original
+ * file is therefore misleading — the bytes have already been decoded correctly by
+ * Node.js.  Leaving a non-UTF-8 encoding in the declaration causes `fast-xml-parser`
+ * to reject the document with a "premature end of file" error at position 1:1.
+ *
+ * This function replaces the `encoding` attribute in the `<?xml ...?>` processing
+ * instruction with `UTF-8` so the parser can proceed without errors.
+ */
+function normalizeXmlEncodingDeclaration(content: string): string {
+  return content.replace(/(<\?xml\b[^?]*?)\s+encoding=["'][^"']*["']/i, '$1 encoding="UTF-8"');
+}
+
+/**
+ * The prefixes a document binds to the XSD namespace besides `xs` and `xsd`
+ * (e.g. `s` in .NET WSDLs), read from its namespace declarations before parsing.
+ */
+function xsdPrefixAliases(content: string): string[] {
+  const aliases = new Set<string>();
+  for (const [, prefix, uri] of content.matchAll(/\bxmlns:([\w.-]+)\s*=\s*["']([^"']*)["']/g)) {
+    if (uri === XSD_NAMESPACE && prefix !== 'xs' && prefix !== 'xsd') aliases.add(prefix);
+  }
+  return [...aliases];
+}
+
+/** @param aliases - Further prefixes bound to the XSD namespace, see `xsdPrefixAliases`. */
+function makeParser(aliases: string[] = []): XMLParser {
+  const prefixes = ['', 'xs:', 'xsd:', ...aliases.map((alias) => `${alias}:`)];
+  let order = 0;
+  return new XMLParser({
+    ignoreAttributes: false,
+    attributeNamePrefix: '@_',
+    isArray: (name) => XSD_ARRAY_LOCAL_NAMES.has(localName(name)),
+    allowBooleanAttributes: true,
+    // Documentation may hold XHTML markup: keep it as written instead of parsing it
+    stopNodes: ['documentation', 'appinfo'].flatMap((name) =>
+      prefixes.map((prefix) => `*.${prefix}${name}`),
+    ),
+    // Stamp ordered declarations with their document position, see orderedChildren().
+    updateTag: (tagName, _jPath, attrs) => {
+      const local = tagName.slice(tagName.indexOf(':') + 1);
+      if (attrs && XSD_ORDERED_LOCAL_NAMES.has(local)) attrs[ORDER_ATTR] = String(order++);
+      return tagName;
+    },
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function attr(node: RawNode, name: string, fallback = ''): string {
+  return (node[`@_${name}`] as string | undefined) ?? fallback;
+}
+
+/**
+ * Safely coerces a raw compositor node (the first item of an XSD_ARRAY_LOCAL_NAMES
+ * field) to a RawNode.  fast-xml-parser can return a primitive (e.g. `""`)
+ * for empty compositors like `<xs:sequence/>`, so we must not rely on `?? {}`
+ * because `"" ?? {}` stays as `""`, causing `'xs:any' in ""` to throw a
+ * TypeError at runtime.
+ */
+function asObject(value: unknown): RawNode {
+  return value !== null && value !== undefined && typeof value === 'object'
+    ? (value as RawNode)
+    : {};
+}
+
+function parseForm(node: RawNode, name = 'form'): 'qualified' | 'unqualified' | undefined {
+  const form = attr(node, name);
+  return form === 'qualified' || form === 'unqualified' ? form : undefined;
+}
+
+function parseOccurs(value: string | undefined): number | 'unbounded' {
+  if (value === 'unbounded') return 'unbounded';
+  if (value === undefined) return 1;
+  const n = Number.parseInt(value, 10);
+  return Number.isNaN(n) ? 1 : n;
+}
+
+function isUnboundedOrMany(max: number | 'unbounded'): boolean {
+  return max === 'unbounded' || max > 1;
+}
+
+/**
+ * Returns the children of `node` named `xs:<kind>` for each requested kind,
+ * merged back into document order.
+ */
+function orderedChildren(node: RawNode, kinds: string[]): { kind: string; node: RawNode }[] {
+  const result: { kind: string; node: RawNode; order: number }[] = [];
+  for (const kind of kinds) {
+    const value = node[`xs:${kind}`];
+    if (value === undefined) continue;
+    for (const child of Array.isArray(value) ? value : [value]) {
+      const obj = asObject(child);
+      result.push({ kind, node: obj, order: Number(obj[ORDER_ATTR] ?? 0) });
+    }
+  }
+  return result.sort((a, b) => a.order - b.order).map(({ kind, node }) => ({ kind, node }));
+}
+
+// ---------------------------------------------------------------------------
+// SimpleType parsing
+// ---------------------------------------------------------------------------
+
+/**
+ * Reads the `value` of a single-valued facet (xs:length, xs:maxInclusive, …).
+ * Facets are not in XSD_ARRAY_LOCAL_NAMES, but tolerate an array anyway.
+ */
+function facetValue(restriction: RawNode, facet: string): string | undefined {
+  const node = restriction[`xs:${facet}`];
+  const first = Array.isArray(node) ? node[0] : node;
+  if (first === null || first === undefined || typeof first !== 'object') return undefined;
+  const value = (first as RawNode)['@_value'];
+  return value === undefined ? undefined : String(value);
+}
+
+function facetNumber(restriction: RawNode, facet: string): number | undefined {
+  const value = facetValue(restriction, facet);
+  if (value === undefined) return undefined;
+  const n = Number.parseInt(value, 10);
+  return Number.isNaN(n) ? undefined : n;
+}
+
+function parseFacets(restriction: RawNode): SimpleTypeFacets {
+  const facets: SimpleTypeFacets = {};
+
+  const enumNodes = (restriction['xs:enumeration'] as unknown[] | undefined) ?? [];
+  if (enumNodes.length > 0) {
+    facets.enumeration = enumNodes.map((n) => String(asObject(n)['@_value'] ?? ''));
+  }
+
+  // Several xs:pattern facets in the same derivation step are alternatives.
+  const patternNodes = (restriction['xs:pattern'] as unknown[] | undefined) ?? [];
+  const patterns = patternNodes.map((n) => String(asObject(n)['@_value'] ?? ''));
+  if (patterns.length === 1) facets.patterns = patterns;
+  if (patterns.length > 1) facets.patterns = [patterns.map((p) => `(?:${p})`).join('|')];
+
+  facets.length = facetNumber(restriction, 'length');
+  facets.minLength = facetNumber(restriction, 'minLength');
+  facets.maxLength = facetNumber(restriction, 'maxLength');
+  facets.minInclusive = facetValue(restriction, 'minInclusive');
+  facets.maxInclusive = facetValue(restriction, 'maxInclusive');
+  facets.minExclusive = facetValue(restriction, 'minExclusive');
+  facets.maxExclusive = facetValue(restriction, 'maxExclusive');
+  facets.totalDigits = facetNumber(restriction, 'totalDigits');
+  facets.fractionDigits = facetNumber(restriction, 'fractionDigits');
+  const whiteSpace = facetValue(restriction, 'whiteSpace');
+  if (whiteSpace === 'preserve' || whiteSpace === 'replace' || whiteSpace === 'collapse') {
+    facets.whiteSpace = whiteSpace;
+  }
+
+  // Drop unset keys so the facet object only lists what the schema declares.
+  for (const key of Object.keys(facets) as (keyof SimpleTypeFacets)[]) {
+    if (facets[key] === undefined) delete facets[key];
+  }
+  return facets;
+}
+
+const XML_ENTITIES: Record<string, string> = {
+  lt: '<',
+  gt: '>',
+  amp: '&',
+  quot: '"',
+  apos: "'",
+};
+
+/** Text of an xs:documentation / xs:appinfo stop node, with entity and character references decoded. */
+function annotationText(value: unknown): string {
+  // A stop node is its raw content, or an object with '#text' when it has attributes (xml:lang)
+  const raw = value !== null && typeof value === 'object' ? (value as RawNode)['#text'] : value;
+  return String(raw ?? '')
+    .replace(/&(#x[0-9a-f]+|#[0-9]+|[a-z]+);/gi, (match, ref: string) => {
+      if (ref[0] !== '#') return XML_ENTITIES[ref] ?? match;
+      const code =
+        ref[1] === 'x' || ref[1] === 'X' ? Number.parseInt(ref.slice(2), 16) : Number(ref.slice(1));
+      return String.fromCodePoint(code);
+    })
+    .trim();
+}
+
+/** Reads the xs:annotation children of a declaration; undefined when there is none or it is empty. */
+function parseAnnotation(raw: RawNode): Annotation | undefined {
+  const documentation: string[] = [];
+  const appinfo: string[] = [];
+  for (const annotation of (raw['xs:annotation'] as unknown[] | undefined) ?? []) {
+    const node = asObject(annotation);
+    for (const doc of (node['xs:documentation'] as unknown[] | undefined) ?? []) {
+      const text = annotationText(doc);
+      if (text) documentation.push(text);
+    }
+    for (const info of (node['xs:appinfo'] as unknown[] | undefined) ?? []) {
+      const text = annotationText(info);
+      if (text) appinfo.push(text);
+    }
+  }
+  return documentation.length > 0 || appinfo.length > 0 ? { documentation, appinfo } : undefined;
+}
+
+/** A reference to a named (or built-in) simple type, resolved when the schema is flattened. */
+function simpleTypeRef(name: string): SimpleTypeDef {
+  return { name, base: name, facets: {} };
+}
+
+function parseSimpleType(raw: RawNode, name: string): SimpleTypeDef {
+  const annotation = parseAnnotation(raw);
+  const list = raw['xs:list'] as RawNode | undefined;
+  if (list) {
+    const itemTypeName = attr(list, 'itemType');
+    const itemType = itemTypeName
+      ? simpleTypeRef(itemTypeName)
+      : (parseInlineSimpleType(list, '') ?? simpleTypeRef('xs:anySimpleType'));
+    return {
+      name,
+      base: 'xs:anySimpleType',
+      facets: {},
+      variety: 'list',
+      itemType,
+      annotation,
+    };
+  }
+
+  const union = raw['xs:union'] as RawNode | undefined;
+  if (union) {
+    const memberTypes = attr(union, 'memberTypes').split(/\s+/).filter(Boolean).map(simpleTypeRef);
+    const inline = (union['xs:simpleType'] as unknown[] | undefined) ?? [];
+    memberTypes.push(...inline.map((n) => parseSimpleType(asObject(n), '')));
+    return {
+      name,
+      base: 'xs:anySimpleType',
+      facets: {},
+      variety: 'union',
+      memberTypes,
+      annotation,
+    };
+  }
+
+  const restriction = asObject(raw['xs:restriction']);
+  const facets = parseFacets(restriction);
+  // <xs:restriction> without base="…" restricts the anonymous xs:simpleType it contains
+  const inlineBase = attr(restriction, 'base') ? undefined : parseInlineSimpleType(restriction, '');
+  if (inlineBase) {
+    return { ...inlineBase, name, facets: mergeFacets(inlineBase.facets, facets), annotation };
+  }
+  return { name, base: attr(restriction, 'base', 'xs:string'), facets, annotation };
+}
+
+/** Parses the first anonymous xs:simpleType child of an element/attribute, if any. */
+function parseInlineSimpleType(raw: RawNode, name: string): SimpleTypeDef | undefined {
+  const inline = raw['xs:simpleType'] as RawNode[] | undefined;
+  return inline && inline.length > 0 ? parseSimpleType(asObject(inline[0]), name) : undefined;
+}
+
+// ---------------------------------------------------------------------------
+// Attribute parsing
+// ---------------------------------------------------------------------------
+
+/**
+ * Attributes of the XML namespace (xml:lang, xml:space, …) are always in scope
+ * and keep their prefix, since no schema declares that namespace.
+ */
+function refAttributeName(ref: string): string {
+  return ref.startsWith('xml:') ? ref : localName(ref);
+}
+
+function parseAttribute(raw: RawNode): AttributeDef {
+  const use = attr(raw, 'use', 'optional') as AttributeDef['use'];
+  // <xs:attribute ref="xml:lang"/> — the declaration is resolved by the SchemaWalker
+  const ref = attr(raw, 'ref') || undefined;
+  const name = ref ? refAttributeName(ref) : attr(raw, 'name');
+  const inlineSimpleType = parseInlineSimpleType(raw, name);
+  return {
+    name,
+    ref,
+    type: attr(raw, 'type', 'xs:string'),
+    use: ['required', 'optional', 'prohibited'].includes(use) ? use : 'optional',
+    default: raw['@_default'] as string | undefined,
+    fixed: raw['@_fixed'] as string | undefined,
+    inlineSimpleType,
+    form: parseForm(raw),
+    annotation: parseAnnotation(raw),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// ComplexType parsing
+// ---------------------------------------------------------------------------
+
+const COMPOSITORS: Compositor[] = ['sequence', 'choice', 'all'];
+
+/**
+ * Parses a compositor node (xs:sequence / xs:choice / xs:all) into a ModelGroup,
+ * recursing into nested compositors and keeping every particle in document order.
+ */
+function parseModelGroup(compositor: Compositor, node: RawNode): ModelGroup {
+  const particles: Particle[] = [];
+  for (const child of orderedChildren(node, ['element', 'group', 'any', ...COMPOSITORS])) {
+    const minOccurs = parseOccurs(child.node['@_minOccurs'] as string | undefined) as number;
+    const maxOccurs = parseOccurs(child.node['@_maxOccurs'] as string | undefined);
+    if (child.kind === 'element') {
+      particles.push({ kind: 'element', element: parseElement(child.node) });
+    } else if (child.kind === 'group') {
+      const ref = attr(child.node, 'ref');
+      if (ref) particles.push({ kind: 'groupRef', ref, minOccurs, maxOccurs });
+    } else if (child.kind === 'any') {
+      particles.push({ kind: 'any', minOccurs, maxOccurs });
+    } else {
+      particles.push(parseModelGroup(child.kind as Compositor, child.node));
+    }
+  }
+  return {
+    kind: 'group',
+    compositor,
+    minOccurs: parseOccurs(node['@_minOccurs'] as string | undefined) as number,
+    maxOccurs: parseOccurs(node['@_maxOccurs'] as string | undefined),
+    particles,
+  };
+}
+
+/**
+ * Reads the content model of a complex type, extension or named group: its
+ * single xs:sequence / xs:choice / xs:all, or a lone xs:group reference
+ * (wrapped in a sequence).
+ */
+function extractContentModel(raw: RawNode): ModelGroup | undefined {
+  for (const compositor of COMPOSITORS) {
+    const nodes = raw[`xs:${compositor}`] as unknown[] | undefined;
+    if (nodes) return parseModelGroup(compositor, asObject(nodes[0]));
+  }
+  const groups = raw['xs:group'] as unknown[] | undefined;
+  const groupNode = asObject(groups?.[0]);
+  const ref = attr(groupNode, 'ref');
+  if (!ref) return undefined;
+  return {
+    kind: 'group',
+    compositor: 'sequence',
+    minOccurs: 1,
+    maxOccurs: 1,
+    particles: [
+      {
+        kind: 'groupRef',
+        ref,
+        minOccurs: parseOccurs(groupNode['@_minOccurs'] as string | undefined) as number,
+        maxOccurs: parseOccurs(groupNode['@_maxOccurs'] as string | undefined),
+      },
+    ],
+  };
+}
+
+/**
+ * Reads the xs:attribute declarations and xs:attributeGroup references of a
+ * complex type (or of its extension), appending them to `into`.
+ */
+function collectAttributes(
+  node: RawNode,
+  into: { attributes: AttributeDef[]; refs: GroupRefDef[] },
+): void {
+  for (const child of orderedChildren(node, ['attribute', 'attributeGroup'])) {
+    if (child.kind === 'attribute') {
+      into.attributes.push(parseAttribute(child.node));
+    } else if (attr(child.node, 'ref')) {
+      into.refs.push({ ref: attr(child.node, 'ref'), position: into.attributes.length });
+    }
+  }
+}
+
+function parseComplexType(raw: RawNode, name: string): ComplexTypeDef {
+  let content: ModelGroup | undefined;
+  let extendsBase: string | undefined;
+  let restrictsBase: string | undefined;
+  let textType: SimpleTypeDef | undefined;
+
+  const attrs = { attributes: [] as AttributeDef[], refs: [] as GroupRefDef[] };
+  collectAttributes(raw, attrs);
+
+  // Type derivation: xs:complexContent or xs:simpleContent, by xs:extension or xs:restriction
+  const complexContent = raw['xs:complexContent'] as RawNode | undefined;
+  const simpleContent = raw['xs:simpleContent'] as RawNode | undefined;
+  const derived = complexContent ?? simpleContent;
+  if (derived) {
+    const extension = derived['xs:extension'] as RawNode | undefined;
+    const restriction = derived['xs:restriction'] as RawNode | undefined;
+    const derivation = extension ?? restriction;
+    if (derivation) {
+      const base = attr(derivation, 'base') || undefined;
+      if (extension) extendsBase = base;
+      else restrictsBase = base;
+      collectAttributes(derivation, attrs);
+      if (complexContent) {
+        // A restriction restates the whole content model, replacing the base's
+        content = extractContentModel(derivation);
+      } else {
+        textType = {
+          name,
+          base: base ?? 'xs:anySimpleType',
+          facets: restriction ? parseFacets(restriction) : {},
+        };
+      }
+    }
+  } else {
+    content = extractContentModel(raw);
+  }
+
+  return {
+    name,
+    compositor: content?.compositor ?? 'sequence',
+    elements: flattenElements(content),
+    content,
+    attributes: attrs.attributes,
+    hasTextContent: simpleContent !== undefined,
+    textType,
+    extends: extendsBase,
+    restricts: restrictsBase,
+    hasWildcard: containsWildcard(content) || undefined,
+    attributeGroupRefs: attrs.refs.length > 0 ? attrs.refs : undefined,
+    annotation: parseAnnotation(raw),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Group parsing
+// ---------------------------------------------------------------------------
+
+function parseGroup(raw: RawNode, name: string): GroupDef {
+  const content = extractContentModel(raw) ?? {
+    kind: 'group',
+    compositor: 'sequence',
+    minOccurs: 1,
+    maxOccurs: 1,
+    particles: [],
+  };
+  return {
+    name,
+    content,
+    elements: flattenElements(content),
+    hasWildcard: containsWildcard(content) || undefined,
+  };
+}
+
+function parseAttributeGroup(raw: RawNode, name: string): AttributeGroupDef {
+  const attrs = { attributes: [] as AttributeDef[], refs: [] as GroupRefDef[] };
+  collectAttributes(raw, attrs);
+  return {
+    name,
+    attributes: attrs.attributes,
+    attributeGroupRefs: attrs.refs.length > 0 ? attrs.refs : undefined,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Element parsing
+// ---------------------------------------------------------------------------
+
+/** Reads the xs:key, xs:unique and xs:keyref declarations of an element, in document order. */
+function parseIdentityConstraints(raw: RawNode): IdentityConstraintDef[] | undefined {
+  const constraints = orderedChildren(raw, ['key', 'unique', 'keyref']).map(
+    ({ kind, node }): IdentityConstraintDef => ({
+      kind: kind as IdentityConstraintDef['kind'],
+      name: attr(node, 'name'),
+      selector: attr(asObject(node['xs:selector']), 'xpath'),
+      fields: ((node['xs:field'] as unknown[] | undefined) ?? []).map((field) =>
+        attr(asObject(field), 'xpath'),
+      ),
+      refer: attr(node, 'refer') || undefined,
+    }),
+  );
+  return constraints.length > 0 ? constraints : undefined;
+}
+
+function parseElement(raw: RawNode): ElementDef {
+  // <xs:element ref="ds:Signature"/> — the declaration is resolved by the SchemaWalker
+  const ref = attr(raw, 'ref') || undefined;
+  const name = ref ? localName(ref) : attr(raw, 'name');
+  const typeName = attr(raw, 'type') || undefined;
+  const minOccurs = parseOccurs(raw['@_minOccurs'] as string | undefined) as number;
+  const maxOccurs = parseOccurs(raw['@_maxOccurs'] as string | undefined);
+
+  // Check for inline complexType
+  const inlineComplexTypes = raw['xs:complexType'] as RawNode[] | undefined;
+  let inlineComplexType: ComplexTypeDef | undefined;
+  if (inlineComplexTypes && inlineComplexTypes.length > 0) {
+    inlineComplexType = parseComplexType(inlineComplexTypes[0], name);
+  }
+  const inlineSimpleType = parseInlineSimpleType(raw, name);
+
+  return {
+    name,
+    ref,
+    typeName,
+    inlineComplexType,
+    inlineSimpleType,
+    minOccurs: minOccurs as number,
+    maxOccurs,
+    attributes: [],
+    children: inlineComplexType?.elements ?? [],
+    isArray: isUnboundedOrMany(maxOccurs),
+    namespace: undefined,
+    form: parseForm(raw),
+    abstract: attr(raw, 'abstract') === 'true' || undefined,
+    nillable: attr(raw, 'nillable') === 'true' || undefined,
+    default: raw['@_default'] as string | undefined,
+    fixed: raw['@_fixed'] as string | undefined,
+    substitutionGroup: attr(raw, 'substitutionGroup') || undefined,
+    identityConstraints: parseIdentityConstraints(raw),
+    annotation: parseAnnotation(raw),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Main parse function
+// ---------------------------------------------------------------------------
+
+/**
+ * A schema given as text instead of a location, with the documents its
+ * includes and imports refer to.
+ *
+ * @example
+ * ```typescript
+ * const schema = {
+ *   content: await db.loadSchema('guia'),
+ *   id: 'guia.xsd',
+ *   documents: { 'common/types.xsd': await db.loadSchema('types') },
+ * };
+ * ```
+ */
+export interface InlineSchema {
+  /** The XSD text, or its raw bytes (decoded following the encoding declaration). */
+  content: string | Uint8Array;
+  /**
+   * Id of the schema, used in diagnostics and to resolve its relative
+   * schemaLocations against `documents`.
+   * @default 'schema.xsd'
+   */
+  id?: string;
+  /**
+   * Documents for xs:include / xs:import, keyed by id: a path relative to the
+   * same root as `id` (e.g. `common/types.xsd`) or an absolute URL.
+   */
+  documents?: Record<string, string | Uint8Array>;
+}
+
+/**
+ * Options for `parseSchema`.
+ */
+export interface SchemaParseOptions {
+  /**
+   * Locates and reads the main schema and every include/import (e.g.
+   * `memoryResolver`). Required when the schema is given by location; for an
+   * `InlineSchema` it serves the documents missing from `documents`.
+   */
+  resolver?: SchemaResolver;
+  /**
+   * Throw an `XsdParseError` when an include, import or reference cannot be
+   * resolved, instead of only recording it in `SchemaModel.diagnostics`.
+   * @default false
+   */
+  failOnUnresolved?: boolean;
+}
+
+type ReferenceCode = Exclude<
+  SchemaDiagnosticCode,
+  'UNRESOLVED_INCLUDE' | 'UNRESOLVED_IMPORT' | 'IMPORT_WITHOUT_LOCATION'
+>;
+
+/** A reference to a named declaration, checked once the whole schema is loaded. */
+interface SchemaReference {
+  code: ReferenceCode;
+  name: string;
+  schemaFile: string;
+}
+
+/** State shared by every schema file loaded for one `parseSchema` call. */
+interface ParseContext {
+  resolver: SchemaResolver;
+  /** Ids of the documents already loaded (or being loaded), to break include/import cycles. */
+  visited: Set<string>;
+  references: SchemaReference[];
+  diagnostics: SchemaDiagnostic[];
+}
+
+/**
+ * Decodes the bytes of a schema document. Bytes are used rather than a UTF-8
+ * string so we can honour the file's own encoding declaration: decoding as
+ * UTF-8 silently replaces every byte ≥ 0x80 that is not valid UTF-8 with
+ * U+FFFD, which corrupts ISO-8859-1/Latin-1 content and causes fast-xml-parser
+ * to see an apparently empty document at position 1:1.
+ */
+function decodeSchema(content: string | Uint8Array): string {
+  if (typeof content === 'string') return normalizeXmlEncodingDeclaration(content);
+  const peek = decodeLatin1(content.subarray(0, 300));
+  const encMatch = /encoding=["']([^"']+)["']/i.exec(peek);
+  const declaredEnc = (encMatch?.[1] ?? 'utf-8').toLowerCase().replace(/-/g, '');
+  const raw = declaredEnc === 'utf8' ? new TextDecoder().decode(content) : decodeLatin1(content);
+  return normalizeXmlEncodingDeclaration(raw);
+}
+
+/**
+ * latin1 maps bytes 0x00–0xFF one-to-one to Unicode code points, so all
+ * accented characters in TISS/ISO-8859-1 files are preserved intact.
+ * (TextDecoder's 'latin1' label is windows-1252, which remaps 0x80–0x9F.)
+ */
+function decodeLatin1(bytes: Uint8Array): string {
+  let text = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    text += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return text;
+}
+
+/**
+ * Internal recursive implementation. The context's `visited` set of document
+ * ids keeps circular xs:include / xs:import chains from causing infinite
+ * recursion.  When a cycle is detected the function returns an empty model and
+ * lets the caller continue with whatever types it has collected so far.
+ */
+async function parseXsdInternal(
+  request: SchemaRequest,
+  context: ParseContext,
+): Promise<SchemaModel> {
+  const { visited } = context;
+  let source: SchemaSource;
+  try {
+    source = await context.resolver.resolve(request);
+  } catch (err) {
+    if (err instanceof XsdParseError) throw err;
+    throw new XsdParseError(`Cannot read XSD file: ${request.location}`, err);
+  }
+  const resolvedPath = source.id;
+
+  if (visited.has(resolvedPath)) {
+    // Already processing this file up the call stack — break the cycle.
+    return {
+      rootElement: '',
+      elements: new Map(),
+      attributes: new Map(),
+      complexTypes: new Map(),
+      simpleTypes: new Map(),
+      groups: new Map(),
+      attributeGroups: new Map(),
+    };
+  }
+  visited.add(resolvedPath);
+
+  const xsdContent = decodeSchema(source.content);
+
+  let schemas: RawNode[];
+  let definitions: RawNode | undefined;
+  try {
+    const parser = makeParser(xsdPrefixAliases(xsdContent));
+    const rawParsed = parser.parse(xsdContent) as RawNode;
+
+    // ── WSDL input ──────────────────────────────────────────────────────────
+    // A WSDL file has <definitions> as root. The actual schemas live inside
+    // <definitions>/<types>/<schema> (any number of them, using the default XSD
+    // namespace or any prefix bound to it). Their xs:imports usually point to
+    // the XSDs that own the xs:element declarations, which are merged after
+    // the include/import processing below.
+    definitions = wsdlChildren(rawParsed, 'definitions')[0];
+    if (definitions !== undefined) {
+      schemas = embeddedSchemas(definitions);
+      if (schemas.length === 0) {
+        throw new XsdParseError(
+          `Invalid WSDL: no <types>/<schema> element found in ${resolvedPath}`,
+        );
+      }
+    } else {
+      // ── Standard XSD ──────────────────────────────────────────────────────
+      // May use default namespace (xmlns="…XMLSchema") instead of xs: prefix.
+      const normalized =
+        rawParsed.schema !== undefined && rawParsed['xs:schema'] === undefined
+          ? (normalizeXsPrefix(rawParsed, new Set([''])) as RawNode)
+          : rawParsed;
+      const xsSchema = normalized['xs:schema'] as RawNode | undefined;
+      if (!xsSchema) {
+        throw new XsdParseError(
+          `Invalid XSD: root element <xs:schema> not found in ${resolvedPath}`,
+        );
+      }
+      schemas = [xsSchema];
+    }
+  } catch (err) {
+    if (err instanceof XsdParseError) throw err;
+    throw new XsdParseError(`Failed to parse XSD/WSDL content from: ${resolvedPath}`, err);
+  }
+
+  // Embedded schemas of a WSDL import each other by namespace alone
+  const siblingNamespaces = new Set(
+    schemas.map((schema) => attr(schema, 'targetNamespace')).filter(Boolean),
+  );
+  const model = await parseSchemaElement(schemas[0], resolvedPath, context, siblingNamespaces);
+  for (const schema of schemas.slice(1)) {
+    const embedded = await parseSchemaElement(schema, resolvedPath, context, siblingNamespaces);
+    mergeDefinitions(model, embedded);
+    model.rootElement ||= embedded.rootElement;
+    model.targetNamespace ??= embedded.targetNamespace;
+    for (const [pfx, uri] of embedded.namespaces ?? []) {
+      if (!model.namespaces?.has(pfx)) model.namespaces?.set(pfx, uri);
+    }
+  }
+
+  if (definitions !== undefined) {
+    model.wsdl = parseWsdlDefinitions(definitions);
+    // Default to the request element of the first operation
+    for (const operation of model.wsdl.operations.values()) {
+      const part = operation.input?.parts.find((p) => p.element);
+      const key = part && partElementKey(model, part);
+      if (key) {
+        model.rootElement = key;
+        break;
+      }
+    }
+  }
+  return model;
+}
+
+/**
+ * The xs:schema elements under <definitions>/<types>, each with the namespace
+ * declarations of <definitions> (so that xmlns:ans and other prefixes declared
+ * at the WSDL root are available when building the prefixMap) and normalised
+ * to xs:* names.
+ */
+function embeddedSchemas(definitions: RawNode): RawNode[] {
+  const defsNsAttrs = Object.fromEntries(
+    Object.entries(definitions).filter(
+      ([k, v]) => k.startsWith('@_xmlns:') && typeof v === 'string',
+    ),
+  );
+  const schemas: RawNode[] = [];
+  for (const types of wsdlChildren(definitions, 'types')) {
+    for (const embedded of wsdlChildren(types, 'schema')) {
+      const embeddedWithNs: RawNode = { ...defsNsAttrs, ...embedded };
+      const aliases = new Set<string>();
+      if ((embedded['@_xmlns'] ?? definitions['@_xmlns']) === XSD_NAMESPACE) aliases.add('');
+      for (const [key, value] of Object.entries(embeddedWithNs)) {
+        const prefix = key.slice('@_xmlns:'.length);
+        if (key.startsWith('@_xmlns:') && value === XSD_NAMESPACE && prefix !== 'xs') {
+          aliases.add(prefix);
+        }
+      }
+      schemas.push(normalizeXsPrefix(embeddedWithNs, aliases) as RawNode);
+    }
+  }
+  return schemas;
+}
+
+const DEFINITION_KINDS = [
+  'elements',
+  'attributes',
+  'complexTypes',
+  'simpleTypes',
+  'groups',
+  'attributeGroups',
+] as const;
+
+type Definitions = Pick<SchemaModel, (typeof DEFINITION_KINDS)[number]>;
+
+/**
+ * Adds the definitions of `source` that `target` does not have yet, under
+ * their name and, for an imported namespace, under each `prefixes` alias too.
+ */
+function mergeDefinitions(target: Definitions, source: Definitions, prefixes: string[] = []): void {
+  for (const kind of DEFINITION_KINDS) {
+    const into = target[kind] as Map<string, unknown>;
+    for (const [name, def] of source[kind]) {
+      for (const key of [name, ...prefixes.map((pfx) => `${pfx}:${name}`)]) {
+        if (!into.has(key)) into.set(key, def);
+      }
+    }
+  }
+}
+
+/**
+ * Parses one xs:schema element of the document `resolvedPath` (the whole XSD,
+ * or one of the schemas embedded in a WSDL), loading its includes and imports.
+ */
+async function parseSchemaElement(
+  schema: RawNode,
+  resolvedPath: string,
+  context: ParseContext,
+  siblingNamespaces: ReadonlySet<string | undefined>,
+): Promise<SchemaModel> {
+  const targetNamespace = schema['@_targetNamespace'] as string | undefined;
+
+  // Build prefix → namespace URI map from xmlns:* attributes on xs:schema
+  const prefixMap = new Map<string, string>();
+  for (const [key, val] of Object.entries(schema)) {
+    if (key.startsWith('@_xmlns:') && typeof val === 'string') {
+      const prefix = key.slice('@_xmlns:'.length);
+      if (prefix !== 'xs' && val !== XSD_NAMESPACE) prefixMap.set(prefix, val);
+    }
+  }
+
+  // Collect top-level elements
+  const rawTopElements: RawNode[] = (schema['xs:element'] as RawNode[] | undefined) ?? [];
+  const elements = new Map<string, ElementDef>();
+  for (const rawEl of rawTopElements) {
+    const el = parseElement(rawEl);
+    elements.set(el.name, el);
+  }
+
+  // Collect top-level attributes (targets of xs:attribute ref="…")
+  const attributes = new Map<string, AttributeDef>();
+  for (const rawAttr of (schema['xs:attribute'] as RawNode[] | undefined) ?? []) {
+    const a = parseAttribute(rawAttr);
+    if (a.name) attributes.set(a.name, a);
+  }
+
+  // Collect named complexTypes
+  const rawComplexTypes: RawNode[] = (schema['xs:complexType'] as RawNode[] | undefined) ?? [];
+  const complexTypes = new Map<string, ComplexTypeDef>();
+  for (const rawCt of rawComplexTypes) {
+    const name = attr(rawCt, 'name');
+    if (!name) continue;
+    const ct = parseComplexType(rawCt, name);
+    ct.namespace = targetNamespace;
+    complexTypes.set(name, ct);
+  }
+
+  // Collect named simpleTypes
+  const rawSimpleTypes: RawNode[] = (schema['xs:simpleType'] as RawNode[] | undefined) ?? [];
+  const simpleTypes = new Map<string, SimpleTypeDef>();
+  for (const rawSt of rawSimpleTypes) {
+    const name = attr(rawSt, 'name');
+    if (!name) continue;
+    simpleTypes.set(name, parseSimpleType(rawSt, name));
+  }
+
+  // Collect named model groups and attribute groups
+  const groups = new Map<string, GroupDef>();
+  for (const rawGroup of (schema['xs:group'] as RawNode[] | undefined) ?? []) {
+    const name = attr(rawGroup, 'name');
+    if (name) groups.set(name, parseGroup(rawGroup, name));
+  }
+  const attributeGroups = new Map<string, AttributeGroupDef>();
+  for (const rawGroup of (schema['xs:attributeGroup'] as RawNode[] | undefined) ?? []) {
+    const name = attr(rawGroup, 'name');
+    if (name) attributeGroups.set(name, parseAttributeGroup(rawGroup, name));
+  }
+
+  assignNamespaces(
+    { elements, attributes, complexTypes, groups, attributeGroups },
+    targetNamespace,
+    parseForm(schema, 'elementFormDefault') === 'qualified',
+    parseForm(schema, 'attributeFormDefault') === 'qualified',
+  );
+  context.references.push(
+    ...collectReferences(
+      { elements, attributes, complexTypes, simpleTypes, groups, attributeGroups },
+      resolvedPath,
+    ),
+  );
+
+  const rootElement = rawTopElements[0] ? attr(rawTopElements[0], 'name') : '';
+  // Note: rootElement may be empty for type-library XSDs (no xs:element) used via xs:include.
+  // The converter surfaces an XsdMappingError naturally when attempted without a root element.
+
+  // Process xs:include — parse referenced schemas and merge their definitions
+  const rawIncludes: RawNode[] = (schema['xs:include'] as RawNode[] | undefined) ?? [];
+  for (const rawInclude of rawIncludes) {
+    const schemaLocation = attr(rawInclude, 'schemaLocation');
+    if (!schemaLocation) continue;
+    try {
+      const includedModel = await parseXsdInternal(
+        { location: schemaLocation, base: resolvedPath },
+        context,
+      );
+      mergeDefinitions(
+        { elements, attributes, complexTypes, simpleTypes, groups, attributeGroups },
+        includedModel,
+      );
+    } catch (err) {
+      // Non-resolvable includes are skipped and reported
+      context.diagnostics.push({
+        severity: 'error',
+        code: 'UNRESOLVED_INCLUDE',
+        schemaFile: resolvedPath,
+        reference: schemaLocation,
+        message: `xs:include schemaLocation="${schemaLocation}" could not be loaded: ${errorMessage(err)}`,
+      });
+    }
+  }
+
+  // Process xs:import — load external-namespace schemas and register types under
+  // both their local name and every prefix that maps to their namespace.
+  const rawImports: RawNode[] = (schema['xs:import'] as RawNode[] | undefined) ?? [];
+  for (const rawImport of rawImports) {
+    const importNs = attr(rawImport, 'namespace');
+    const schemaLocation = attr(rawImport, 'schemaLocation');
+    if (!schemaLocation) {
+      if (siblingNamespaces.has(importNs)) continue;
+      context.diagnostics.push({
+        severity: 'warning',
+        code: 'IMPORT_WITHOUT_LOCATION',
+        schemaFile: resolvedPath,
+        reference: importNs,
+        message: `xs:import of namespace "${importNs}" has no schemaLocation; nothing is loaded for it.`,
+      });
+      continue;
+    }
+    try {
+      const importedModel = await parseXsdInternal(
+        { location: schemaLocation, namespace: importNs || undefined, base: resolvedPath },
+        context,
+      );
+      // Collect all prefixes that map to the imported namespace
+      const prefixes: string[] = [];
+      for (const [pfx, uri] of prefixMap) {
+        if (uri === importNs) prefixes.push(pfx);
+      }
+      mergeDefinitions(
+        { elements, attributes, complexTypes, simpleTypes, groups, attributeGroups },
+        importedModel,
+        prefixes,
+      );
+      for (const [pfx, uri] of importedModel.namespaces ?? []) {
+        if (!prefixMap.has(pfx) && ![...prefixMap.values()].includes(uri)) prefixMap.set(pfx, uri);
+      }
+    } catch (err) {
+      // Non-resolvable imports are skipped and reported
+      context.diagnostics.push({
+        severity: 'error',
+        code: 'UNRESOLVED_IMPORT',
+        schemaFile: resolvedPath,
+        reference: schemaLocation,
+        message: `xs:import schemaLocation="${schemaLocation}" (namespace "${importNs}") could not be loaded: ${errorMessage(err)}`,
+      });
+    }
+  }
+
+  // When rootElement is empty (e.g. WSDL schema or type-library XSD), derive
+  // it from the first element that was merged via xs:include / xs:import.
+  // This lets the converter identify a sensible default root without requiring
+  // the caller to guess the element name manually.
+  const effectiveRoot = rootElement || elements.keys().next().value || '';
+
+  return {
+    rootElement: effectiveRoot,
+    elements,
+    attributes,
+    complexTypes,
+    simpleTypes,
+    groups,
+    attributeGroups,
+    targetNamespace,
+    namespaces: prefixMap,
+  };
+}
+
+/**
+ * Sets the namespace of every element and attribute declared in one schema
+ * document: global declarations are always qualified by the target namespace,
+ * local ones according to their form="…" or the schema's
+ * elementFormDefault / attributeFormDefault. References (ref="…") take the
+ * namespace of the global declaration when the SchemaWalker resolves them.
+ * Runs per schema file, before included and imported definitions are merged.
+ */
+function assignNamespaces(
+  defs: Pick<
+    SchemaModel,
+    'elements' | 'attributes' | 'complexTypes' | 'groups' | 'attributeGroups'
+  >,
+  targetNamespace: string | undefined,
+  elementsQualified: boolean,
+  attributesQualified: boolean,
+): void {
+  const visitedTypes = new Set<ComplexTypeDef>();
+  const qualified = (form: 'qualified' | 'unqualified' | undefined, byDefault: boolean) =>
+    (form ? form === 'qualified' : byDefault) ? targetNamespace : undefined;
+
+  const visitAttribute = (a: AttributeDef): void => {
+    if (!a.ref) a.namespace = qualified(a.form, attributesQualified);
+  };
+  const visitComplexType = (ct: ComplexTypeDef | undefined): void => {
+    if (!ct || visitedTypes.has(ct)) return;
+    visitedTypes.add(ct);
+    visitModelGroup(ct.content);
+    ct.attributes.forEach(visitAttribute);
+  };
+  const visitModelGroup = (group: ModelGroup | undefined): void => {
+    for (const p of group?.particles ?? []) {
+      if (p.kind === 'group') visitModelGroup(p);
+      if (p.kind !== 'element' || p.element.ref) continue;
+      p.element.namespace = qualified(p.element.form, elementsQualified);
+      visitComplexType(p.element.inlineComplexType);
+    }
+  };
+
+  for (const el of defs.elements.values()) {
+    el.namespace = targetNamespace;
+    visitComplexType(el.inlineComplexType);
+  }
+  for (const a of defs.attributes.values()) a.namespace = targetNamespace;
+  for (const ct of defs.complexTypes.values()) visitComplexType(ct);
+  for (const group of defs.groups.values()) visitModelGroup(group.content);
+  for (const group of defs.attributeGroups.values()) group.attributes.forEach(visitAttribute);
+}
+
+// ---------------------------------------------------------------------------
+// Simple type restriction chains
+// ---------------------------------------------------------------------------
+
+/**
+ * Combines the facets of a base type with those of a type restricting it.
+ * A facet redeclared by the derived type replaces the base one, except for
+ * xs:pattern, where every derivation step must be satisfied.
+ */
+function mergeFacets(base: SimpleTypeFacets, derived: SimpleTypeFacets): SimpleTypeFacets {
+  const merged: SimpleTypeFacets = { ...base, ...derived };
+  if (base.patterns && derived.patterns) {
+    merged.patterns = [...base.patterns, ...derived.patterns];
+  }
+  return merged;
+}
+
+/**
+ * Rewrites every simple type in the model — named, and inline on elements and
+ * attributes — so that `base` is a built-in type and `facets` holds the facets
+ * of the whole restriction chain.  Runs once all includes/imports are merged,
+ * because a chain may cross schema files.
+ */
+function flattenSimpleTypes(model: SchemaModel): void {
+  const flattened = new Map<SimpleTypeDef, SimpleTypeDef>();
+
+  const lookup = (name: string): SimpleTypeDef | undefined =>
+    model.simpleTypes.get(name) ?? model.simpleTypes.get(localName(name));
+
+  const flatten = (st: SimpleTypeDef, chain: Set<SimpleTypeDef>): SimpleTypeDef => {
+    const done = flattened.get(st);
+    if (done) return done;
+    const builtin = normalizeBuiltinType(st.base, model);
+    const baseSt = builtin ? undefined : lookup(st.base);
+    let result: SimpleTypeDef;
+    chain.add(st);
+    if (!baseSt || chain.has(baseSt)) {
+      result = { ...st, base: builtin ?? st.base };
+    } else {
+      // A restriction of a list or union type keeps its variety and members.
+      const flatBase = flatten(baseSt, chain);
+      result = { ...st, base: flatBase.base, facets: mergeFacets(flatBase.facets, st.facets) };
+      if (flatBase.variety) {
+        result.variety = flatBase.variety;
+        if (flatBase.itemType) result.itemType = flatBase.itemType;
+        if (flatBase.memberTypes) result.memberTypes = flatBase.memberTypes;
+      }
+    }
+    if (st.itemType) result.itemType = flatten(st.itemType, chain);
+    if (st.memberTypes) result.memberTypes = st.memberTypes.map((m) => flatten(m, chain));
+    chain.delete(st);
+    flattened.set(st, result);
+    return result;
+  };
+
+  for (const [key, st] of model.simpleTypes) {
+    model.simpleTypes.set(key, flatten(st, new Set()));
+  }
+
+  // simpleContent text types may derive from a complex type with simple content
+  const lookupCT = (name: string): ComplexTypeDef | undefined =>
+    model.complexTypes.get(name) ?? model.complexTypes.get(localName(name));
+  const flattenedText = new Set<ComplexTypeDef>();
+  const flattenText = (ct: ComplexTypeDef): void => {
+    const text = ct.textType;
+    if (!text || flattenedText.has(ct)) return;
+    flattenedText.add(ct);
+    const baseCt = lookupCT(text.base);
+    if (baseCt) flattenText(baseCt);
+    const baseText = baseCt?.textType;
+    ct.textType = baseText
+      ? { ...text, base: baseText.base, facets: mergeFacets(baseText.facets, text.facets) }
+      : flatten(text, new Set());
+  };
+
+  const visitedTypes = new Set<ComplexTypeDef>();
+  const visitElement = (el: ElementDef): void => {
+    if (el.inlineSimpleType) el.inlineSimpleType = flatten(el.inlineSimpleType, new Set());
+    if (el.inlineComplexType) visitComplexType(el.inlineComplexType);
+  };
+  const visitComplexType = (ct: ComplexTypeDef): void => {
+    if (visitedTypes.has(ct)) return;
+    visitedTypes.add(ct);
+    flattenText(ct);
+    for (const a of ct.attributes) {
+      if (a.inlineSimpleType) a.inlineSimpleType = flatten(a.inlineSimpleType, new Set());
+    }
+    for (const el of ct.elements) visitElement(el);
+  };
+  for (const el of model.elements.values()) visitElement(el);
+  for (const ct of model.complexTypes.values()) visitComplexType(ct);
+  for (const group of model.groups.values()) {
+    for (const el of group.elements) visitElement(el);
+  }
+  const attributeLists = [
+    [...model.attributes.values()],
+    ...[...model.attributeGroups.values()].map((g) => g.attributes),
+  ];
+  for (const list of attributeLists) {
+    for (const a of list) {
+      if (a.inlineSimpleType) a.inlineSimpleType = flatten(a.inlineSimpleType, new Set());
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Reference checks (diagnostics)
+// ---------------------------------------------------------------------------
+
+function errorMessage(err: unknown): string {
+  const message = err instanceof Error ? err.message : String(err);
+  const cause = err instanceof XsdParseError && err.cause instanceof Error ? err.cause : undefined;
+  return cause ? `${message} (${cause.message})` : message;
+}
+
+/**
+ * Lists every named declaration referenced by one schema document: types
+ * (type="…", base="…", itemType / memberTypes), element and attribute refs,
+ * substitution group heads and model / attribute group refs. The xs:pattern
+ * facets are listed too, to check that they compile.
+ */
+function collectReferences(
+  defs: Omit<SchemaModel, 'rootElement'>,
+  schemaFile: string,
+): SchemaReference[] {
+  const references: SchemaReference[] = [];
+  const add = (code: ReferenceCode, name: string | undefined): void => {
+    if (name) references.push({ code, name, schemaFile });
+  };
+  const visitedTypes = new Set<ComplexTypeDef>();
+
+  const visitSimpleType = (st: SimpleTypeDef | undefined): void => {
+    if (!st) return;
+    if (st.variety === 'list') visitSimpleType(st.itemType);
+    else if (st.variety === 'union') st.memberTypes?.forEach(visitSimpleType);
+    else add('UNRESOLVED_TYPE', st.base);
+    for (const pattern of st.facets.patterns ?? []) add('UNSUPPORTED_PATTERN', pattern);
+  };
+  const visitAttribute = (a: AttributeDef): void => {
+    // Attributes of the XML namespace (xml:lang, …) are always in scope
+    if (a.ref) add('UNRESOLVED_ATTRIBUTE', a.ref.startsWith('xml:') ? undefined : a.ref);
+    else if (a.inlineSimpleType) visitSimpleType(a.inlineSimpleType);
+    else add('UNRESOLVED_TYPE', a.type);
+  };
+  const visitAttributes = (attributes: AttributeDef[], groupRefs: GroupRefDef[] = []): void => {
+    attributes.forEach(visitAttribute);
+    for (const ref of groupRefs) add('UNRESOLVED_ATTRIBUTE_GROUP', ref.ref);
+  };
+  const visitElement = (el: ElementDef): void => {
+    if (el.ref) {
+      add('UNRESOLVED_ELEMENT', el.ref);
+      return;
+    }
+    add('UNRESOLVED_TYPE', el.typeName);
+    add('UNRESOLVED_ELEMENT', el.substitutionGroup);
+    visitComplexType(el.inlineComplexType);
+    visitSimpleType(el.inlineSimpleType);
+  };
+  const visitModelGroup = (group: ModelGroup | undefined): void => {
+    for (const p of group?.particles ?? []) {
+      if (p.kind === 'group') visitModelGroup(p);
+      else if (p.kind === 'groupRef') add('UNRESOLVED_GROUP', p.ref);
+      else if (p.kind === 'element') visitElement(p.element);
+    }
+  };
+  function visitComplexType(ct: ComplexTypeDef | undefined): void {
+    if (!ct || visitedTypes.has(ct)) return;
+    visitedTypes.add(ct);
+    add('UNRESOLVED_TYPE', ct.extends ?? ct.restricts);
+    visitModelGroup(ct.content);
+    visitAttributes(ct.attributes, ct.attributeGroupRefs);
+  }
+
+  defs.elements.forEach(visitElement);
+  defs.attributes.forEach(visitAttribute);
+  defs.complexTypes.forEach(visitComplexType);
+  defs.simpleTypes.forEach(visitSimpleType);
+  for (const group of defs.groups.values()) visitModelGroup(group.content);
+  for (const group of defs.attributeGroups.values()) {
+    visitAttributes(group.attributes, group.attributeGroupRefs);
+  }
+  return references;
+}
+
+/**
+ * Resolves the collected references against the loaded schema the way the
+ * SchemaWalker does (exact name first, then the local name) and reports each
+ * unresolved one once per schema file.
+ */
+function checkReferences(references: SchemaReference[], model: SchemaModel): SchemaDiagnostic[] {
+  const has = (map: Map<string, unknown>, name: string) =>
+    map.has(name) || map.has(localName(name));
+  const kinds: Record<ReferenceCode, { label: string; resolves: (name: string) => boolean }> = {
+    UNRESOLVED_TYPE: {
+      label: 'Type',
+      resolves: (name) =>
+        normalizeBuiltinType(name, model) !== undefined ||
+        has(model.complexTypes, name) ||
+        has(model.simpleTypes, name),
+    },
+    UNRESOLVED_ELEMENT: { label: 'Element', resolves: (name) => has(model.elements, name) },
+    UNRESOLVED_ATTRIBUTE: { label: 'Attribute', resolves: (name) => has(model.attributes, name) },
+    UNRESOLVED_GROUP: { label: 'Group', resolves: (name) => has(model.groups, name) },
+    UNRESOLVED_ATTRIBUTE_GROUP: {
+      label: 'Attribute group',
+      resolves: (name) => has(model.attributeGroups, name),
+    },
+    UNSUPPORTED_PATTERN: {
+      label: 'Pattern',
+      resolves: (pattern) => compilePattern(pattern) !== null,
+    },
+  };
+  const reported = new Set<string>();
+  const diagnostics: SchemaDiagnostic[] = [];
+  for (const { code, name, schemaFile } of references) {
+    const key = `${schemaFile}\0${code}\0${name}`;
+    if (reported.has(key) || kinds[code].resolves(name)) continue;
+    reported.add(key);
+    if (code === 'UNSUPPORTED_PATTERN') {
+      diagnostics.push({
+        severity: 'warning',
+        code,
+        schemaFile,
+        reference: name,
+        message: `Pattern "${name}" cannot be compiled as a JavaScript regular expression; values are not checked against it.`,
+      });
+      continue;
+    }
+    diagnostics.push({
+      severity: 'error',
+      code,
+      schemaFile,
+      reference: name,
+      message: `${kinds[code].label} "${name}" is not declared in the schema or its includes and imports.`,
+    });
+  }
+  return diagnostics;
+}
+
+/**
+ * Parses a schema, with its includes and imports, into a SchemaModel without
+ * touching the filesystem: documents are read through `options.resolver`, or
+ * from the `InlineSchema` itself. Includes, imports and references that cannot
+ * be resolved are reported in `SchemaModel.diagnostics`.
+ *
+ * @param schema  - Location of the main schema for `options.resolver`, or the schema text.
+ * @param options - Parse options.
+ *
+ * @throws `XsdParseError` if the schema cannot be read or parsed, or, with
+ *         `failOnUnresolved`, if anything is left unresolved.
+ */
+export async function parseSchema(
+  schema: string | InlineSchema,
+  options: SchemaParseOptions = {},
+): Promise<SchemaModel> {
+  const { failOnUnresolved = false } = options;
+  let location: string;
+  let resolver: SchemaResolver;
+  if (typeof schema === 'string') {
+    if (!options.resolver) {
+      throw new XsdParseError(
+        `No resolver to read "${schema}" (pass a resolver or the schema text).`,
+      );
+    }
+    location = schema;
+    resolver = options.resolver;
+  } else {
+    location = schema.id ?? 'schema.xsd';
+    resolver = inlineResolver(location, schema, options.resolver);
+  }
+  const context: ParseContext = {
+    resolver,
+    visited: new Set(),
+    references: [],
+    diagnostics: [],
+  };
+  const model = await parseXsdInternal({ location }, context);
+  const diagnostics = [...context.diagnostics, ...checkReferences(context.references, model)];
+  flattenSimpleTypes(model);
+  model.sourceFiles = [...context.visited];
+  model.diagnostics = diagnostics;
+
+  const errors = diagnostics.filter((d) => d.severity === 'error');
+  if (failOnUnresolved && errors.length > 0) {
+    const summary = errors.map((d) => `  [${d.schemaFile}] ${d.message}`).join('\n');
+    throw new XsdParseError(`Unresolved schema references:\n${summary}`, undefined, errors);
+  }
+  return model;
+}
+
+/** Serves an `InlineSchema` and its documents, falling back to `fallback` for anything else. */
+function inlineResolver(
+  id: string,
+  { content, documents }: InlineSchema,
+  fallback: SchemaResolver | undefined,
+): SchemaResolver {
+  const memory = memoryResolver({ ...documents, [id]: content });
+  if (!fallback) return memory;
+  return {
+    resolve: (request) => memory.resolve(request).catch(() => fallback.resolve(request)),
+  };
+}
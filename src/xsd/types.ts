@@ -1,12 +1,32 @@
+/**
+ * Content of the xs:annotation of a declaration.
+ */
+export interface Annotation {
+  /** Text of each xs:documentation, trimmed; markup inside it is kept as written. */
+  documentation: string[];
+  /** Content of each xs:appinfo, trimmed and kept as written. */
+  appinfo: string[];
+}
+
 /**
  * Represents a single XSD attribute definition (xs:attribute).
  */
 export interface AttributeDef {
   name: string;
+  /** Referenced global attribute (xs:attribute ref="…"), as written in the schema. */
+  ref?: string;
   type: string;
   use: 'required' | 'optional' | 'prohibited';
   default?: string;
   fixed?: string;
+  /** Anonymous xs:simpleType declared inside the attribute. */
+  inlineSimpleType?: SimpleTypeDef;
+  /** Namespace URI of the attribute name; undefined for unqualified attributes. */
+  namespace?: string;
+  /** Explicit form="qualified|unqualified"; defaults to the schema's attributeFormDefault. */
+  form?: 'qualified' | 'unqualified';
+  /** xs:annotation of the declaration. */
+  annotation?: Annotation;
 }
 
 /**
@@ -14,42 +34,219 @@ export interface AttributeDef {
  */
 export interface ElementDef {
   name: string;
+  /**
+   * Referenced global element (xs:element ref="…"), as written in the schema.
+   * The SchemaWalker substitutes the global declaration, keeping the
+   * occurrence constraints of the reference.
+   */
+  ref?: string;
   /** Resolved type name (complexType or simpleType). Undefined for inline complexTypes. */
   typeName?: string;
   /** Inline complex type definition when no type reference is used. */
   inlineComplexType?: ComplexTypeDef;
+  /** Inline (anonymous) simple type definition when no type reference is used. */
+  inlineSimpleType?: SimpleTypeDef;
   minOccurs: number;
   maxOccurs: number | 'unbounded';
   attributes: AttributeDef[];
   /** Direct child element definitions when the type is inline. */
   children: ElementDef[];
+  /**
+   * Namespace URI of the element name: the target namespace for global
+   * declarations and qualified local ones, undefined for unqualified locals.
+   */
   namespace?: string;
+  /** Explicit form="qualified|unqualified"; defaults to the schema's elementFormDefault. */
+  form?: 'qualified' | 'unqualified';
   /** Whether this element can appear multiple times (maxOccurs > 1 or unbounded). */
   isArray: boolean;
+  /** abstract="true": the element may only appear through a member of its substitution group. */
+  abstract?: boolean;
+  /** nillable="true": the element may be given as null, written with xsi:nil="true". */
+  nillable?: boolean;
+  /** default="…": the value of the element when it is empty. */
+  default?: string;
+  /** fixed="…": the only value the element may have (also its value when empty). */
+  fixed?: string;
+  /** xs:key, xs:unique and xs:keyref declarations, evaluated on each occurrence of the element. */
+  identityConstraints?: IdentityConstraintDef[];
+  /** Head element this global element can substitute for (substitutionGroup="…"), as written. */
+  substitutionGroup?: string;
+  /** xs:annotation of the declaration. */
+  annotation?: Annotation;
+}
+
+/**
+ * An identity constraint (xs:key, xs:unique or xs:keyref) declared on an element.
+ * XPaths are kept as written, in the restricted subset XSD allows.
+ */
+export interface IdentityConstraintDef {
+  kind: 'key' | 'unique' | 'keyref';
+  name: string;
+  /** xs:selector xpath: the nodes constrained, relative to the declaring element. */
+  selector: string;
+  /** xs:field xpaths: the values that identify a selected node, relative to it. */
+  fields: string[];
+  /** Key or unique constraint a keyref refers to (refer="…"), as written. */
+  refer?: string;
 }
 
 /**
  * Compositor types supported.
- * - sequence: ordered list of elements
- * - all: any order, each 0 or 1 times (treated like sequence)
- * - choice: exactly one of the listed elements
+ * - sequence: ordered list of particles
+ * - all: any order, each 0 or 1 times (emitted in declared order)
+ * - choice: exactly one of the listed particles
  */
 export type Compositor = 'sequence' | 'all' | 'choice';
 
+/**
+ * An element declaration inside a content model.
+ */
+export interface ElementParticle {
+  kind: 'element';
+  element: ElementDef;
+}
+
+/**
+ * A compositor (xs:sequence / xs:choice / xs:all) with its own occurrence
+ * constraints and the particles it contains, which may be nested compositors.
+ */
+export interface ModelGroup {
+  kind: 'group';
+  compositor: Compositor;
+  minOccurs: number;
+  maxOccurs: number | 'unbounded';
+  particles: Particle[];
+}
+
+/**
+ * A reference to a named model group (xs:group ref="…"). The SchemaWalker
+ * replaces it with the group's ModelGroup, carrying the reference's occurrences.
+ */
+export interface GroupRefParticle {
+  kind: 'groupRef';
+  ref: string;
+  minOccurs: number;
+  maxOccurs: number | 'unbounded';
+}
+
+/**
+ * An xs:any wildcard.
+ */
+export interface WildcardParticle {
+  kind: 'any';
+  minOccurs: number;
+  maxOccurs: number | 'unbounded';
+}
+
+/**
+ * A node of a complex type's content model (particle tree).
+ */
+export type Particle = ElementParticle | ModelGroup | GroupRefParticle | WildcardParticle;
+
+/**
+ * A reference to a named attribute group (xs:attributeGroup ref="…") inside
+ * a complex type or attribute group.
+ */
+export interface GroupRefDef {
+  /** Referenced group name, as written in the schema (may carry a prefix). */
+  ref: string;
+  /**
+   * Number of sibling attribute declarations that precede the reference,
+   * i.e. the index at which the group's attributes are spliced in.
+   */
+  position: number;
+}
+
+/**
+ * Represents a named model group (xs:group name="…").
+ */
+export interface GroupDef {
+  name: string;
+  /** The group's compositor and its particles. */
+  content: ModelGroup;
+  /** Every element declared in the group (nested compositors flattened, group refs excluded). */
+  elements: ElementDef[];
+  /** True when the group's content model contains xs:any. */
+  hasWildcard?: boolean;
+}
+
+/**
+ * Represents a named attribute group (xs:attributeGroup name="…").
+ */
+export interface AttributeGroupDef {
+  name: string;
+  attributes: AttributeDef[];
+  /** Nested xs:attributeGroup references, expanded in place by the SchemaWalker. */
+  attributeGroupRefs?: GroupRefDef[];
+}
+
 /**
  * Represents a complex type definition (xs:complexType).
  */
 export interface ComplexTypeDef {
   name: string;
+  /** Compositor at the root of the type's own content model. */
   compositor: Compositor;
+  /**
+   * Every element declared in the type's own content model, in document order,
+   * with nested compositors flattened (group refs and base types excluded).
+   */
   elements: ElementDef[];
+  /**
+   * The type's own content model as a particle tree. Undefined when the type
+   * declares no compositor (empty or simple content).
+   */
+  content?: ModelGroup;
   attributes: AttributeDef[];
   /** Text content (xs:simpleContent / mixed="true") */
   hasTextContent: boolean;
-  /** Base type name when using xs:complexContent/xs:extension */
+  /**
+   * Simple type of the text content of an xs:simpleContent type, with the facets
+   * of an xs:restriction. Flattened to its built-in base once the schema is loaded.
+   */
+  textType?: SimpleTypeDef;
+  /** Target namespace of a named (global) type; undefined for anonymous types. */
+  namespace?: string;
+  /** Base type name when using xs:complexContent/xs:extension or xs:simpleContent/xs:extension */
   extends?: string;
-  /** True when the compositor contains xs:any — accepts arbitrary child elements. */
+  /**
+   * Base type name when using xs:complexContent/xs:restriction or
+   * xs:simpleContent/xs:restriction. The type's own content model replaces the
+   * base's; its attribute declarations narrow the inherited ones.
+   */
+  restricts?: string;
+  /** True when the content model contains xs:any — accepts arbitrary child elements. */
   hasWildcard?: boolean;
+  /** xs:attributeGroup references among `attributes`, expanded in place by the SchemaWalker. */
+  attributeGroupRefs?: GroupRefDef[];
+  /** xs:annotation of the type. */
+  annotation?: Annotation;
+}
+
+/**
+ * Constraining facets declared by an xs:restriction.
+ *
+ * Range facets are kept in their lexical form so that their interpretation
+ * (numeric, date, …) can follow the built-in base type.
+ */
+export interface SimpleTypeFacets {
+  enumeration?: string[];
+  /**
+   * One entry per derivation step. The patterns of a single xs:restriction are
+   * OR-ed into one entry; a value must match every entry.
+   */
+  patterns?: string[];
+  length?: number;
+  minLength?: number;
+  maxLength?: number;
+  minInclusive?: string;
+  maxInclusive?: string;
+  minExclusive?: string;
+  maxExclusive?: string;
+  totalDigits?: number;
+  fractionDigits?: number;
+  whiteSpace?: 'preserve' | 'replace' | 'collapse';
 }
 
 /**
@@ -57,8 +254,120 @@ export interface ComplexTypeDef {
  */
 export interface SimpleTypeDef {
   name: string;
-  /** xs:restriction base */
+  /**
+   * xs:restriction base. Once the schema is fully loaded, restriction chains of
+   * named simple types are flattened and this holds the built-in base type
+   * (e.g. "xs:string").
+   */
   base: string;
+  /** Facets accumulated along the restriction chain. */
+  facets: SimpleTypeFacets;
+  /**
+   * xs:list or xs:union; undefined for atomic types. For these varieties `base`
+   * is "xs:anySimpleType" and the facets constrain the list/union as a whole.
+   */
+  variety?: 'list' | 'union';
+  /** Item type of an xs:list (flattened once the schema is loaded). */
+  itemType?: SimpleTypeDef;
+  /** Member types of an xs:union, in declaration order (flattened once the schema is loaded). */
+  memberTypes?: SimpleTypeDef[];
+  /** xs:annotation of the type. */
+  annotation?: Annotation;
+}
+
+/**
+ * Kinds of problems reported while loading a schema.
+ * - UNRESOLVED_INCLUDE / UNRESOLVED_IMPORT: the schemaLocation could not be read or parsed
+ * - IMPORT_WITHOUT_LOCATION: an xs:import names no schemaLocation, so nothing is loaded for it
+ * - UNRESOLVED_TYPE / _ELEMENT / _ATTRIBUTE / _GROUP / _ATTRIBUTE_GROUP: a type="…", base="…",
+ *   ref="…" or substitutionGroup="…" names a declaration that does not exist
+ * - UNSUPPORTED_PATTERN: an xs:pattern has no JavaScript equivalent, so values are not checked against it
+ */
+export type SchemaDiagnosticCode =
+  | 'UNRESOLVED_INCLUDE'
+  | 'UNRESOLVED_IMPORT'
+  | 'IMPORT_WITHOUT_LOCATION'
+  | 'UNRESOLVED_TYPE'
+  | 'UNRESOLVED_ELEMENT'
+  | 'UNRESOLVED_ATTRIBUTE'
+  | 'UNRESOLVED_GROUP'
+  | 'UNRESOLVED_ATTRIBUTE_GROUP'
+  | 'UNSUPPORTED_PATTERN';
+
+/**
+ * A problem found while loading a schema. Errors leave part of the schema
+ * unresolved (e.g. an element of an unknown type is treated as plain text).
+ */
+export interface SchemaDiagnostic {
+  severity: 'error' | 'warning';
+  code: SchemaDiagnosticCode;
+  /** Absolute path of the schema file containing the offending reference. */
+  schemaFile: string;
+  /** The offending reference as written: a schemaLocation, namespace or (prefixed) name. */
+  reference: string;
+  message: string;
+}
+
+/**
+ * A part of a WSDL message: a global element (document style) or a type (rpc style).
+ */
+export interface WsdlPart {
+  name: string;
+  /** Local name of the part's global element. */
+  element?: string;
+  /** Local name of the part's type. */
+  type?: string;
+  /** Namespace of `element` or `type`. */
+  namespace?: string;
+}
+
+/**
+ * A wsdl:message.
+ */
+export interface WsdlMessage {
+  name: string;
+  parts: WsdlPart[];
+}
+
+/**
+ * How a wsdl:binding exposes an operation over SOAP.
+ */
+export interface WsdlSoapBinding {
+  /** Name of the wsdl:binding. */
+  binding: string;
+  version: '1.1' | '1.2';
+  /** soapAction of the soap:operation, if declared. */
+  soapAction?: string;
+  style: 'document' | 'rpc';
+  /** soap:address location of the service port using the binding, if declared. */
+  address?: string;
+}
+
+/**
+ * An operation of a wsdl:portType with its messages and SOAP bindings.
+ */
+export interface WsdlOperation {
+  name: string;
+  /** Name of the wsdl:portType declaring the operation. */
+  portType: string;
+  input?: WsdlMessage;
+  output?: WsdlMessage;
+  faults: WsdlMessage[];
+  /** SOAP bindings of the operation, in document order (e.g. SOAP 1.1 and 1.2). */
+  bindings: WsdlSoapBinding[];
+}
+
+/**
+ * The service description of a WSDL 1.1 document.
+ */
+export interface WsdlDefinitions {
+  /** wsdl:definitions name, if present. */
+  name?: string;
+  /** wsdl:definitions targetNamespace, if present. */
+  targetNamespace?: string;
+  messages: Map<string, WsdlMessage>;
+  /** Operations of every portType keyed by name (the first one wins on duplicate names). */
+  operations: Map<string, WsdlOperation>;
 }
 
 /**
@@ -69,10 +378,27 @@ export interface SchemaModel {
   rootElement: string;
   /** All top-level element definitions keyed by name. */
   elements: Map<string, ElementDef>;
+  /** All top-level attribute definitions keyed by name. */
+  attributes: Map<string, AttributeDef>;
   /** All named complex type definitions keyed by name. */
   complexTypes: Map<string, ComplexTypeDef>;
   /** All named simple type definitions keyed by name. */
   simpleTypes: Map<string, SimpleTypeDef>;
+  /** All named model groups (xs:group) keyed by name. */
+  groups: Map<string, GroupDef>;
+  /** All named attribute groups (xs:attributeGroup) keyed by name. */
+  attributeGroups: Map<string, AttributeGroupDef>;
   /** xs:schema targetNamespace, if present. */
   targetNamespace?: string;
+  /**
+   * Prefix → namespace URI declarations of the schema (xmlns:*), including those
+   * of imported schemas that do not clash. The XSD namespace itself is left out.
+   */
+  namespaces?: Map<string, string>;
+  /** Absolute paths of the schema files read: the main file, then its includes and imports. */
+  sourceFiles?: string[];
+  /** Problems found while loading the schema, in the order they were found. */
+  diagnostics?: SchemaDiagnostic[];
+  /** Messages and operations, when the schema was read from a WSDL document. */
+  wsdl?: WsdlDefinitions;
 }
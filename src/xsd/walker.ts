@@ -1,53 +1,52 @@
-import type { AttributeDef, ComplexTypeDef, ElementDef, SchemaModel } from './types.js';
-
-// Built-in XSD simple types that map to text content.
-const XS_SIMPLE_TYPES = new Set([
-  'xs:string',
-  'xs:integer',
-  'xs:int',
-  'xs:long',
-  'xs:short',
-  'xs:decimal',
-  'xs:float',
-  'xs:double',
-  'xs:boolean',
-  'xs:date',
-  'xs:time',
-  'xs:dateTime',
-  'xs:duration',
-  'xs:anyURI',
-  'xs:base64Binary',
-  'xs:hexBinary',
-  'xs:token',
-  'xs:normalizedString',
-  'xs:positiveInteger',
-  'xs:nonNegativeInteger',
-  'xs:negativeInteger',
-  'xs:nonPositiveInteger',
-  'xs:unsignedInt',
-  'xs:unsignedLong',
-  'xs:unsignedShort',
-  'xs:byte',
-  'xs:unsignedByte',
-  'xs:ID',
-  'xs:IDREF',
-  'xs:NMTOKEN',
-  'xs:Name',
-  'xs:QName',
-  'xs:anyType',
-]);
+import { localName } from '../utils.js';
+import { normalizeBuiltinType } from './builtins.js';
+import { containsWildcard, flattenElements } from './particles.js';
+import type {
+  Annotation,
+  AttributeDef,
+  AttributeGroupDef,
+  ComplexTypeDef,
+  ElementDef,
+  GroupDef,
+  GroupRefDef,
+  ModelGroup,
+  Particle,
+  SchemaModel,
+  SimpleTypeDef,
+} from './types.js';
 
 /**
- * Strips the namespace prefix from a qualified name.
- * e.g. "ans:cabecalhoTransacao" → "cabecalhoTransacao"
- *       "cabecalhoTransacao"      → "cabecalhoTransacao"
+ * Splices the attributes of referenced attribute groups into `items` at each
+ * reference's position, keeping the declared order.
  */
-function localName(name: string): string {
-  const i = name.indexOf(':');
-  return i >= 0 ? name.slice(i + 1) : name;
+function spliceGroups<T>(
+  items: T[],
+  refs: GroupRefDef[] | undefined,
+  expand: (ref: string) => T[],
+): T[] {
+  if (!refs || refs.length === 0) return items;
+  const sorted = [...refs].sort((a, b) => a.position - b.position);
+  const result: T[] = [];
+  let next = 0;
+  for (const ref of sorted) {
+    result.push(...items.slice(next, ref.position));
+    next = Math.max(next, ref.position);
+    result.push(...expand(ref.ref));
+  }
+  result.push(...items.slice(next));
+  return result;
 }
 
 export class SchemaWalker {
+  // Resolved copies of ref= declarations, cached so each reference keeps a
+  // stable identity across walker calls.
+  private readonly resolvedElementRefs = new WeakMap<ElementDef, ElementDef>();
+  private readonly resolvedAttributeRefs = new WeakMap<AttributeDef, AttributeDef>();
+  // Resolved content models per complex type (null: the type has no content model).
+  private readonly resolvedContent = new WeakMap<ComplexTypeDef, ModelGroup | null>();
+  // Transitive substitution group members per head element, built on first use.
+  private substitutionIndex?: Map<ElementDef, ElementDef[]>;
+
   constructor(private readonly model: SchemaModel) {}
 
   /**
@@ -60,6 +59,61 @@ export class SchemaWalker {
     return this.model.complexTypes.get(name) ?? this.model.complexTypes.get(localName(name));
   }
 
+  private lookupGroup(name: string): GroupDef | undefined {
+    return this.model.groups.get(name) ?? this.model.groups.get(localName(name));
+  }
+
+  private lookupAttributeGroup(name: string): AttributeGroupDef | undefined {
+    return this.model.attributeGroups.get(name) ?? this.model.attributeGroups.get(localName(name));
+  }
+
+  /**
+   * Resolves a particle tree: xs:group references are replaced by the group's
+   * model group (with the reference's occurrences) and xs:element ref="…"
+   * declarations by the global element. `seen` guards against (invalid)
+   * self-referencing groups.
+   */
+  private resolveModelGroup(group: ModelGroup, seen = new Set<GroupDef>()): ModelGroup {
+    const particles: Particle[] = [];
+    for (const p of group.particles) {
+      if (p.kind === 'element') {
+        const element = this.resolveElementRef(p.element);
+        const members = this.getSubstitutionMembers(p.element);
+        particles.push(
+          members.length > 0
+            ? this.substitutionChoice(element, members)
+            : { kind: 'element', element },
+        );
+      } else if (p.kind === 'group') {
+        particles.push(this.resolveModelGroup(p, seen));
+      } else if (p.kind === 'groupRef') {
+        const def = this.lookupGroup(p.ref);
+        if (!def || seen.has(def)) continue;
+        const resolved = this.resolveModelGroup(def.content, new Set(seen).add(def));
+        particles.push({ ...resolved, minOccurs: p.minOccurs, maxOccurs: p.maxOccurs });
+      } else {
+        particles.push(p);
+      }
+    }
+    return { ...group, particles };
+  }
+
+  /**
+   * Expands xs:attributeGroup references into the attribute declarations they stand for.
+   */
+  private expandAttributeGroupRefs(
+    attributes: AttributeDef[],
+    refs: GroupRefDef[] | undefined,
+    seen = new Set<AttributeGroupDef>(),
+  ): AttributeDef[] {
+    return spliceGroups(attributes, refs, (ref) => {
+      const group = this.lookupAttributeGroup(ref);
+      if (!group || seen.has(group)) return [];
+      const inner = new Set(seen).add(group);
+      return this.expandAttributeGroupRefs(group.attributes, group.attributeGroupRefs, inner);
+    });
+  }
+
   /**
    * Returns the top-level ElementDef for the given name, if it exists.
    */
@@ -67,6 +121,135 @@ export class SchemaWalker {
     return this.model.elements.get(name);
   }
 
+  /**
+   * Returns the elements that may appear in place of a head element: every
+   * global element whose substitutionGroup names it, directly or through
+   * another member. `el` is a global declaration or an `xs:element ref="…"`
+   * to one; local declarations have no members.
+   */
+  getSubstitutionMembers(el: ElementDef): ElementDef[] {
+    const head = el.ref ? this.lookupGlobalElement(el.ref) : el;
+    if (!head) return [];
+    this.substitutionIndex ??= this.buildSubstitutionIndex();
+    return this.substitutionIndex.get(head) ?? [];
+  }
+
+  private buildSubstitutionIndex(): Map<ElementDef, ElementDef[]> {
+    const direct = new Map<ElementDef, ElementDef[]>();
+    // Imported elements are registered under several keys; visit each declaration once.
+    for (const el of new Set(this.model.elements.values())) {
+      if (!el.substitutionGroup) continue;
+      const head = this.lookupGlobalElement(el.substitutionGroup);
+      if (!head || head === el) continue;
+      direct.set(head, [...(direct.get(head) ?? []), el]);
+    }
+    const collect = (head: ElementDef, into: Set<ElementDef>): void => {
+      for (const member of direct.get(head) ?? []) {
+        if (into.has(member)) continue;
+        into.add(member);
+        collect(member, into);
+      }
+    };
+    // A member that declares no type takes the type of the head it substitutes for.
+    const withType = (el: ElementDef, seen: Set<ElementDef>): ElementDef => {
+      if (el.typeName || el.inlineComplexType || el.inlineSimpleType) return el;
+      const head = el.substitutionGroup
+        ? this.lookupGlobalElement(el.substitutionGroup)
+        : undefined;
+      if (!head || seen.has(head)) return el;
+      const typed = withType(head, seen.add(el));
+      return {
+        ...el,
+        typeName: typed.typeName,
+        inlineComplexType: typed.inlineComplexType,
+        inlineSimpleType: typed.inlineSimpleType,
+      };
+    };
+    const index = new Map<ElementDef, ElementDef[]>();
+    for (const head of direct.keys()) {
+      const members = new Set<ElementDef>();
+      collect(head, members);
+      members.delete(head);
+      index.set(
+        head,
+        [...members].map((m) => withType(m, new Set())),
+      );
+    }
+    return index;
+  }
+
+  /**
+   * Replaces a head element particle by a choice between the head and its
+   * substitution group members, which take the occurrences of the head particle.
+   */
+  private substitutionChoice(head: ElementDef, members: ElementDef[]): ModelGroup {
+    const { minOccurs, maxOccurs, isArray } = head;
+    const particles: Particle[] = [
+      { kind: 'element', element: head },
+      ...members.map(
+        (m): Particle => ({
+          kind: 'element',
+          element: { ...m, minOccurs, maxOccurs, isArray },
+        }),
+      ),
+    ];
+    return { kind: 'group', compositor: 'choice', minOccurs, maxOccurs, particles };
+  }
+
+  /** Global element lookup with the local-name fallback used for references. */
+  private lookupGlobalElement(name: string): ElementDef | undefined {
+    return this.model.elements.get(name) ?? this.model.elements.get(localName(name));
+  }
+
+  /**
+   * Resolves an `xs:element ref="…"` against the global element declarations
+   * (prefix-aware: imported elements are registered under their prefixes too).
+   * The referenced declaration supplies the type and namespace; the reference
+   * keeps its own minOccurs/maxOccurs. Non-ref and unresolvable elements are
+   * returned unchanged.
+   */
+  resolveElementRef(el: ElementDef): ElementDef {
+    if (!el.ref) return el;
+    const cached = this.resolvedElementRefs.get(el);
+    if (cached) return cached;
+    const global = this.lookupGlobalElement(el.ref);
+    if (!global) return el;
+    const resolved: ElementDef = {
+      ...global,
+      ref: el.ref,
+      minOccurs: el.minOccurs,
+      maxOccurs: el.maxOccurs,
+      isArray: el.isArray,
+      annotation: el.annotation ?? global.annotation,
+    };
+    this.resolvedElementRefs.set(el, resolved);
+    return resolved;
+  }
+
+  /**
+   * Resolves an `xs:attribute ref="…"` against the global attribute declarations.
+   * The reference keeps its own `use`, and its `default`/`fixed` when declared.
+   */
+  resolveAttributeRef(attrDef: AttributeDef): AttributeDef {
+    if (!attrDef.ref) return attrDef;
+    const cached = this.resolvedAttributeRefs.get(attrDef);
+    if (cached) return cached;
+    const global =
+      this.model.attributes.get(attrDef.ref) ?? this.model.attributes.get(localName(attrDef.ref));
+    if (!global) return attrDef;
+    const resolved: AttributeDef = {
+      ...global,
+      name: attrDef.name,
+      ref: attrDef.ref,
+      use: attrDef.use,
+      default: attrDef.default ?? global.default,
+      fixed: attrDef.fixed ?? global.fixed,
+      annotation: attrDef.annotation ?? global.annotation,
+    };
+    this.resolvedAttributeRefs.set(attrDef, resolved);
+    return resolved;
+  }
+
   /**
    * Returns the ComplexTypeDef for the given type name, if it exists.
    */
@@ -74,6 +257,40 @@ export class SchemaWalker {
     return this.model.complexTypes.get(name);
   }
 
+  /**
+   * Resolves an xsi:type override: returns a copy of the element typed by the
+   * named complex type, or undefined when the type is unknown or does not derive
+   * (by extension or restriction, over any number of steps) from the element's
+   * declared type. Untyped elements (xs:anyType) accept any complex type.
+   */
+  resolveXsiType(el: ElementDef, typeName: string): ElementDef | undefined {
+    const ct = this.lookupCT(typeName);
+    if (!ct) return undefined;
+    const declared = this.resolveComplexTypeForElement(el);
+    if (declared) {
+      if (!this.isDerivedFrom(ct, declared)) return undefined;
+    } else if (el.typeName && normalizeBuiltinType(el.typeName, this.model) !== 'xs:anyType') {
+      return undefined;
+    }
+    return { ...el, typeName, inlineComplexType: undefined, inlineSimpleType: undefined };
+  }
+
+  /**
+   * Returns true when `ct` is `base` or derives from it through its
+   * xs:extension / xs:restriction chain.
+   */
+  isDerivedFrom(ct: ComplexTypeDef, base: ComplexTypeDef): boolean {
+    const seen = new Set<ComplexTypeDef>();
+    let current: ComplexTypeDef | undefined = ct;
+    while (current && !seen.has(current)) {
+      if (current === base) return true;
+      seen.add(current);
+      const baseName: string | undefined = current.extends ?? current.restricts;
+      current = baseName ? this.lookupCT(baseName) : undefined;
+    }
+    return false;
+  }
+
   /**
    * Resolves the full ComplexTypeDef for an element:
    * - If the element has an inline complexType, return that.
@@ -91,53 +308,182 @@ export class SchemaWalker {
    */
   isSimpleType(typeName: string | undefined): boolean {
     if (!typeName) return true;
-    if (XS_SIMPLE_TYPES.has(typeName)) return true;
-    return this.model.simpleTypes.has(typeName);
+    if (normalizeBuiltinType(typeName, this.model)) return true;
+    return this.lookupSimpleType(typeName) !== undefined;
+  }
+
+  /**
+   * Returns the (flattened) SimpleTypeDef for a named simple type, falling back
+   * to the local name like `lookupCT`. Built-in types have no SimpleTypeDef.
+   */
+  lookupSimpleType(name: string): SimpleTypeDef | undefined {
+    return this.model.simpleTypes.get(name) ?? this.model.simpleTypes.get(localName(name));
+  }
+
+  /**
+   * Resolves the simple type that constrains an element's text value:
+   * the inline xs:simpleType if present, otherwise the named simple type.
+   * Returns undefined for complex types, built-in types and untyped elements.
+   */
+  resolveSimpleTypeForElement(el: ElementDef): SimpleTypeDef | undefined {
+    if (el.inlineSimpleType) return el.inlineSimpleType;
+    if (!el.typeName || normalizeBuiltinType(el.typeName, this.model)) return undefined;
+    return this.lookupSimpleType(el.typeName);
+  }
+
+  /**
+   * Resolves the simple type that constrains an attribute value (inline or named).
+   */
+  resolveSimpleTypeForAttribute(attrDef: AttributeDef): SimpleTypeDef | undefined {
+    if (attrDef.inlineSimpleType) return attrDef.inlineSimpleType;
+    if (normalizeBuiltinType(attrDef.type, this.model)) return undefined;
+    return this.lookupSimpleType(attrDef.type);
+  }
+
+  /**
+   * Resolves the simple type that constrains the text content of an element
+   * whose type has xs:simpleContent (facets of any xs:restriction included).
+   */
+  resolveTextTypeForElement(el: ElementDef): SimpleTypeDef | undefined {
+    return this.resolveComplexTypeForElement(el)?.textType;
+  }
+
+  /**
+   * The annotations that apply to an element or attribute, most specific first:
+   * the declaration's own (or that of the global declaration it references),
+   * then its complex or simple type's.
+   */
+  private annotationsFor(def: ElementDef | AttributeDef): Annotation[] {
+    let candidates: (Annotation | undefined)[];
+    if ('use' in def) {
+      const attrDef = this.resolveAttributeRef(def);
+      candidates = [attrDef.annotation, this.resolveSimpleTypeForAttribute(attrDef)?.annotation];
+    } else {
+      const el = this.resolveElementRef(def);
+      candidates = [
+        el.annotation,
+        this.resolveComplexTypeForElement(el)?.annotation,
+        this.resolveSimpleTypeForElement(el)?.annotation,
+      ];
+    }
+    return candidates.filter((a): a is Annotation => a !== undefined);
+  }
+
+  /**
+   * Returns the xs:annotation of an element or attribute declaration, falling
+   * back to that of its type when the declaration itself has none.
+   */
+  getAnnotation(def: ElementDef | AttributeDef): Annotation | undefined {
+    return this.annotationsFor(def)[0];
   }
 
   /**
-   * Gets all attributes declared for an element, including those inherited via
-   * xs:complexContent/xs:extension from base types (recursive).
+   * Returns the xs:documentation text of an element or attribute (or of its
+   * type when the declaration is undocumented), paragraphs joined by a blank line.
+   */
+  getDocumentation(def: ElementDef | AttributeDef): string | undefined {
+    const annotation = this.annotationsFor(def).find((a) => a.documentation.length > 0);
+    return annotation?.documentation.join('\n\n');
+  }
+
+  /**
+   * Gets all attributes declared for an element, including those inherited from
+   * base types (xs:extension / xs:restriction, recursive), with
+   * xs:attribute ref="…" declarations resolved. use="prohibited" declarations are left out.
    */
   getAttributesForElement(el: ElementDef): AttributeDef[] {
+    return this.resolveAttributesForElement(el).filter((a) => a.use !== 'prohibited');
+  }
+
+  /**
+   * Gets the attributes the element's type declares use="prohibited" (directly
+   * or by restricting an inherited declaration) and does not redeclare.
+   */
+  getProhibitedAttributesForElement(el: ElementDef): AttributeDef[] {
+    const attributes = this.resolveAttributesForElement(el);
+    const allowed = new Set(attributes.filter((a) => a.use !== 'prohibited').map((a) => a.name));
+    return attributes.filter((a) => a.use === 'prohibited' && !allowed.has(a.name));
+  }
+
+  private resolveAttributesForElement(el: ElementDef): AttributeDef[] {
+    const ct = this.resolveComplexTypeForElement(el);
+    const attributes = ct ? this.resolveAllAttributes(ct) : el.attributes;
+    return attributes.map((a) => this.resolveAttributeRef(a));
+  }
+
+  /**
+   * Returns the resolved content model (particle tree) of the element's type:
+   * base type content first (xs:complexContent/xs:extension, recursive), then
+   * the type's own, with xs:group and xs:element ref="…" references resolved.
+   * Returns undefined for simple types and types without a content model.
+   */
+  getContentModelForElement(el: ElementDef): ModelGroup | undefined {
     const ct = this.resolveComplexTypeForElement(el);
-    if (!ct) return el.attributes;
-    return this.resolveAllAttributes(ct);
+    return ct ? this.resolveContentModel(ct) : undefined;
   }
 
   /**
-   * Gets all child ElementDefs declared in the element's type (sequence/all/choice),
-   * including those inherited via xs:complexContent/xs:extension (recursive).
+   * Gets all child ElementDefs declared in the element's type (sequence/all/choice,
+   * nested compositors flattened), including those inherited via
+   * xs:complexContent/xs:extension (recursive), with xs:group and
+   * xs:element ref="…" references resolved.
    */
   getChildElementsForElement(el: ElementDef): ElementDef[] {
     const ct = this.resolveComplexTypeForElement(el);
-    if (!ct) return el.children;
-    return this.resolveAllElements(ct);
+    if (!ct) return el.children.map((c) => this.resolveElementRef(c));
+    return flattenElements(this.resolveContentModel(ct));
   }
 
   /**
-   * Recursively resolves all element children following the xs:extension inheritance chain.
-   * Base type elements come first, then the derived type's own elements.
+   * Recursively resolves the content model following the xs:extension inheritance
+   * chain. An extension is a sequence of the base content followed by its own;
+   * a restriction's content model stands on its own.
    */
-  private resolveAllElements(ct: ComplexTypeDef, visited = new Set<string>()): ElementDef[] {
-    if (visited.has(ct.name)) return ct.elements;
-    visited.add(ct.name);
-    if (!ct.extends) return ct.elements;
-    const baseCt = this.lookupCT(ct.extends);
-    if (!baseCt) return ct.elements;
-    return [...this.resolveAllElements(baseCt, visited), ...ct.elements];
+  private resolveContentModel(
+    ct: ComplexTypeDef,
+    visited = new Set<ComplexTypeDef>(),
+  ): ModelGroup | undefined {
+    const cached = this.resolvedContent.get(ct);
+    if (cached !== undefined) return cached ?? undefined;
+    visited.add(ct);
+    const own = ct.content ? this.resolveModelGroup(ct.content) : undefined;
+    let base: ModelGroup | undefined;
+    const baseCt = ct.extends ? this.lookupCT(ct.extends) : undefined;
+    if (baseCt && !visited.has(baseCt)) base = this.resolveContentModel(baseCt, visited);
+    const result: ModelGroup | undefined =
+      base && own
+        ? {
+            kind: 'group',
+            compositor: 'sequence',
+            minOccurs: 1,
+            maxOccurs: 1,
+            particles: [base, own],
+          }
+        : (base ?? own);
+    this.resolvedContent.set(ct, result ?? null);
+    return result;
   }
 
   /**
-   * Recursively resolves all attributes following the xs:extension inheritance chain.
+   * Recursively resolves all attributes following the inheritance chain,
+   * expanding xs:attributeGroup references in place. An extension appends its
+   * attributes to the base's; a restriction replaces the inherited declarations
+   * of the same name (use="prohibited" ones included, see getAttributesForElement).
    */
   private resolveAllAttributes(ct: ComplexTypeDef, visited = new Set<string>()): AttributeDef[] {
-    if (visited.has(ct.name)) return ct.attributes;
+    const own = this.expandAttributeGroupRefs(ct.attributes, ct.attributeGroupRefs);
+    if (visited.has(ct.name)) return own;
     visited.add(ct.name);
-    if (!ct.extends) return ct.attributes;
-    const baseCt = this.lookupCT(ct.extends);
-    if (!baseCt) return ct.attributes;
-    return [...this.resolveAllAttributes(baseCt, visited), ...ct.attributes];
+    const baseName = ct.extends ?? ct.restricts;
+    const baseCt = baseName ? this.lookupCT(baseName) : undefined;
+    if (!baseCt) return own;
+    const inherited = this.resolveAllAttributes(baseCt, visited);
+    if (ct.extends) return [...inherited, ...own];
+    const overrides = new Map(own.map((a) => [a.name, a]));
+    const merged = inherited.map((a) => overrides.get(a.name) ?? a);
+    const inheritedNames = new Set(inherited.map((a) => a.name));
+    merged.push(...own.filter((a) => !inheritedNames.has(a.name)));
+    return merged;
   }
 
   /**
@@ -145,20 +491,7 @@ export class SchemaWalker {
    * meaning arbitrary child elements should be accepted and passed through.
    */
   hasWildcardForElement(el: ElementDef): boolean {
-    const ct = this.resolveComplexTypeForElement(el);
-    if (!ct) return false;
-    return this.resolveHasWildcard(ct);
-  }
-
-  /**
-   * Recursively checks whether a complexType or any of its ancestors has xs:any.
-   */
-  private resolveHasWildcard(ct: ComplexTypeDef, visited = new Set<string>()): boolean {
-    if (ct.hasWildcard) return true;
-    if (!ct.extends || visited.has(ct.name)) return false;
-    visited.add(ct.name);
-    const baseCt = this.lookupCT(ct.extends);
-    return baseCt ? this.resolveHasWildcard(baseCt, visited) : false;
+    return containsWildcard(this.getContentModelForElement(el));
   }
 
   /**
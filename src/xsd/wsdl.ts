@@ -0,0 +1,176 @@
+import { localName } from '../utils.js';
+import type {
+  SchemaModel,
+  WsdlDefinitions,
+  WsdlMessage,
+  WsdlOperation,
+  WsdlPart,
+  WsdlSoapBinding,
+} from './types.js';
+
+type RawNode = Record<string, unknown>;
+
+/** Namespaces of the SOAP binding extensions, by SOAP version. */
+const SOAP_BINDING_NAMESPACES: Record<string, WsdlSoapBinding['version']> = {
+  'http://schemas.xmlsoap.org/wsdl/soap/': '1.1',
+  'http://schemas.xmlsoap.org/wsdl/soap12/': '1.2',
+};
+
+function attr(node: RawNode, name: string): string | undefined {
+  return node[`@_${name}`] as string | undefined;
+}
+
+/** Children of `node` with the given local name, whatever their prefix. */
+export function children(node: RawNode, name: string): RawNode[] {
+  const result: RawNode[] = [];
+  for (const [key, value] of Object.entries(node)) {
+    if (key.startsWith('@_') || localName(key) !== name) continue;
+    for (const item of Array.isArray(value) ? value : [value]) {
+      // Empty elements such as <soap:address/> are parsed as ''
+      result.push(item !== null && typeof item === 'object' ? (item as RawNode) : {});
+    }
+  }
+  return result;
+}
+
+/** The xmlns declarations of `node` added to `inherited` (prefix → URI, '' for the default). */
+function declarations(node: RawNode, inherited?: Map<string, string>): Map<string, string> {
+  const namespaces = new Map(inherited);
+  for (const [key, value] of Object.entries(node)) {
+    if (key === '@_xmlns') namespaces.set('', String(value));
+    else if (key.startsWith('@_xmlns:'))
+      namespaces.set(key.slice('@_xmlns:'.length), String(value));
+  }
+  return namespaces;
+}
+
+/**
+ * SOAP extension children of a binding or binding operation (soap:binding,
+ * soap12:operation, …) with their SOAP version.
+ */
+function soapChildren(
+  node: RawNode,
+  name: string,
+  namespaces: Map<string, string>,
+): { node: RawNode; version: WsdlSoapBinding['version'] }[] {
+  const result: { node: RawNode; version: WsdlSoapBinding['version'] }[] = [];
+  for (const key of Object.keys(node)) {
+    const i = key.indexOf(':');
+    if (i < 0 || key.slice(i + 1) !== name) continue;
+    const version = SOAP_BINDING_NAMESPACES[namespaces.get(key.slice(0, i)) ?? ''];
+    if (!version) continue;
+    for (const child of children({ [key]: node[key] }, name)) result.push({ node: child, version });
+  }
+  return result;
+}
+
+/**
+ * Reads the messages, portType operations, SOAP bindings and service addresses
+ * of a WSDL 1.1 `<definitions>` element (as parsed by fast-xml-parser).
+ * QName references are matched by local name.
+ */
+export function parseWsdlDefinitions(definitions: RawNode): WsdlDefinitions {
+  const namespaces = declarations(definitions);
+  const qualified = (qname: string | undefined): { local?: string; namespace?: string } => {
+    if (!qname) return {};
+    const i = qname.indexOf(':');
+    return { local: qname.slice(i + 1), namespace: namespaces.get(i < 0 ? '' : qname.slice(0, i)) };
+  };
+
+  const messages = new Map<string, WsdlMessage>();
+  for (const rawMessage of children(definitions, 'message')) {
+    const name = attr(rawMessage, 'name');
+    if (!name) continue;
+    const parts = children(rawMessage, 'part').map((rawPart): WsdlPart => {
+      const element = qualified(attr(rawPart, 'element'));
+      const type = qualified(attr(rawPart, 'type'));
+      return {
+        name: attr(rawPart, 'name') ?? '',
+        element: element.local,
+        type: type.local,
+        namespace: element.namespace ?? type.namespace,
+      };
+    });
+    messages.set(name, { name, parts });
+  }
+  const message = (node: RawNode | undefined): WsdlMessage | undefined => {
+    const ref = node && attr(node, 'message');
+    return ref ? messages.get(localName(ref)) : undefined;
+  };
+
+  const operations = new Map<string, WsdlOperation>();
+  for (const portType of children(definitions, 'portType')) {
+    for (const rawOperation of children(portType, 'operation')) {
+      const name = attr(rawOperation, 'name');
+      if (!name || operations.has(name)) continue;
+      operations.set(name, {
+        name,
+        portType: attr(portType, 'name') ?? '',
+        input: message(children(rawOperation, 'input')[0]),
+        output: message(children(rawOperation, 'output')[0]),
+        faults: children(rawOperation, 'fault')
+          .map(message)
+          .filter((m): m is WsdlMessage => m !== undefined),
+        bindings: [],
+      });
+    }
+  }
+
+  // soap:address of the service ports, by binding name
+  const addresses = new Map<string, string>();
+  for (const service of children(definitions, 'service')) {
+    for (const port of children(service, 'port')) {
+      const binding = attr(port, 'binding');
+      const address = soapChildren(port, 'address', declarations(port, namespaces))[0];
+      const location = address && attr(address.node, 'location');
+      if (binding && location) addresses.set(localName(binding), location);
+    }
+  }
+
+  for (const rawBinding of children(definitions, 'binding')) {
+    const bindingNamespaces = declarations(rawBinding, namespaces);
+    const soap = soapChildren(rawBinding, 'binding', bindingNamespaces)[0];
+    if (!soap) continue; // HTTP or MIME bindings
+    const binding = attr(rawBinding, 'name') ?? '';
+    const portType = localName(attr(rawBinding, 'type') ?? '');
+    for (const rawOperation of children(rawBinding, 'operation')) {
+      const operation = operations.get(attr(rawOperation, 'name') ?? '');
+      if (!operation || operation.portType !== portType) continue;
+      const soapOperation = soapChildren(rawOperation, 'operation', bindingNamespaces)[0]?.node;
+      const style = (soapOperation && attr(soapOperation, 'style')) ?? attr(soap.node, 'style');
+      operation.bindings.push({
+        binding,
+        version: soap.version,
+        soapAction: soapOperation && attr(soapOperation, 'soapAction'),
+        style: style === 'rpc' ? 'rpc' : 'document',
+        address: addresses.get(binding),
+      });
+    }
+  }
+
+  return {
+    name: attr(definitions, 'name'),
+    targetNamespace: attr(definitions, 'targetNamespace'),
+    messages,
+    operations,
+  };
+}
+
+/**
+ * Key in `model.elements` of the global element of a message part: the local
+ * name when it is declared in the part's namespace, or a prefixed key otherwise
+ * (an imported element shadowed by a local one of the same name).
+ */
+export function partElementKey(model: SchemaModel, part: WsdlPart): string | undefined {
+  if (!part.element) return undefined;
+  const matches = (key: string) => {
+    const el = model.elements.get(key);
+    return el !== undefined && (part.namespace === undefined || el.namespace === part.namespace);
+  };
+  if (matches(part.element)) return part.element;
+  for (const key of model.elements.keys()) {
+    if (localName(key) === part.element && matches(key)) return key;
+  }
+  // Chameleon includes leave elements without the namespace the part refers to
+  return model.elements.has(part.element) ? part.element : undefined;
+}
@@ -0,0 +1,83 @@
+import { copyFile, mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { dirname, join, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { describe, expect, it } from 'vitest';
+import { createSchemaBundle, isSchemaBundleStale } from '../src/bundle-fs.js';
+import { loadSchemaBundle } from '../src/bundle.js';
+import { runCli } from '../src/cli.js';
+import { convertJsonToXml } from '../src/converter.js';
+import type { JsonObject } from '../src/types.js';
+import { XsdParseError } from '../src/validation/errors.js';
+import { parseXsd } from '../src/xsd/parser.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+const fixturesDir = resolve(__dirname, 'fixtures');
+const tissSchema = resolve(
+  __dirname,
+  'schema',
+  'tiss-comunicacao-040300',
+  'tissWebServicesV4_03_00.xsd',
+);
+
+/** Writes a bundle to JSON text and loads it back, as a deployment would. */
+async function roundTrip(xsdPath: string) {
+  const bundle = await createSchemaBundle(await parseXsd(xsdPath));
+  return loadSchemaBundle(JSON.stringify(bundle));
+}
+
+describe('schema bundles', () => {
+  it('records the format version, sources and checksum', async () => {
+    const bundle = await createSchemaBundle(await parseXsd(resolve(fixturesDir, 'namespaces.xsd')));
+    expect(bundle.version).toBe(1);
+    expect(bundle.sources).toEqual(['namespaces.xsd', 'contact-types.xsd', 'refs-dsig.xsd']);
+    expect(bundle.checksum).toMatch(/^[0-9a-f]{64}$/);
+    expect(await isSchemaBundleStale(bundle, fixturesDir)).toBe(false);
+  });
+
+  it('loads a model that converts like the XSD files', async () => {
+    const json = JSON.parse(
+      await readFile(resolve(__dirname, 'input', 'ENVIO_LOTE_GUIAS.json'), 'utf-8'),
+    ) as JsonObject;
+    const model = await roundTrip(tissSchema);
+    expect(model.elements).toBeInstanceOf(Map);
+    expect(await convertJsonToXml(json, model)).toBe(await convertJsonToXml(json, tissSchema));
+  });
+
+  it('keeps declarations shared between map keys shared', async () => {
+    const model = await roundTrip(resolve(fixturesDir, 'namespaces.xsd'));
+    const phoneType = model.complexTypes.get('c:PhoneType');
+    expect(phoneType?.name).toBe('PhoneType');
+    expect(model.complexTypes.get('PhoneType')).toBe(phoneType);
+    expect(model.elements.get('ds:Signature')).toBe(model.elements.get('Signature'));
+  });
+
+  it('rejects other formats and versions', async () => {
+    const bundle = await createSchemaBundle(await parseXsd(resolve(fixturesDir, 'simple.xsd')));
+    expect(() => loadSchemaBundle({ ...bundle, version: 2 })).toThrow(
+      'Unsupported schema bundle version 2 (expected 1).',
+    );
+    expect(() => loadSchemaBundle('{}')).toThrow(XsdParseError);
+    expect(() => loadSchemaBundle('not json')).toThrow(XsdParseError);
+  });
+
+  it('detects stale bundles', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'xsd-bundle-'));
+    try {
+      await copyFile(resolve(fixturesDir, 'xsi-type.xsd'), join(dir, 'xsi-type.xsd'));
+      await copyFile(resolve(fixturesDir, 'contact-types.xsd'), join(dir, 'contact-types.xsd'));
+      const bundlePath = join(dir, 'bundle.json');
+      const output = { out: () => {}, err: () => {} };
+      expect(await runCli(['bundle', join(dir, 'xsi-type.xsd'), '-o', bundlePath], output)).toBe(0);
+      expect(await runCli(['check-bundle', bundlePath, dir], output)).toBe(0);
+
+      const imported = join(dir, 'contact-types.xsd');
+      await writeFile(imported, (await readFile(imported, 'utf-8')).replace('numero', 'fone'));
+      expect(await runCli(['check-bundle', bundlePath, dir], output)).toBe(1);
+      expect(await runCli(['bundle'], output)).toBe(2);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,1566 @@
+import { copyFile, mkdtemp, rm, utimes } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { dirname, join, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { describe, expect, it } from 'vitest';
+import { clearSchemaCache, compileSchema } from '../src/compiled-schema.js';
+import { convertJsonToSoap, convertJsonToXml } from '../src/converter.js';
+import type { JsonObject } from '../src/types.js';
+import {
+  XsdMappingError,
+  XsdSerializationError,
+  XsdValidationError,
+} from '../src/validation/errors.js';
+import { catalogResolver } from '../src/xsd/resolvers-fs.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+const fixturesDir = resolve(__dirname, 'fixtures');
+
+/**
+ * Runs a strict conversion and returns the reported issues (empty when the
+ * JSON is valid).
+ */
+async function strictIssues(json: JsonObject, fixture: string) {
+  try {
+    await convertJsonToXml(json, resolve(fixturesDir, fixture), { strict: true });
+    return [];
+  } catch (err) {
+    if (err instanceof XsdValidationError) return err.issues;
+    throw err;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Strict mode — simpleType facets (facets.xsd)
+// ---------------------------------------------------------------------------
+
+describe('convertJsonToXml — strict facet validation', () => {
+  const valid = {
+    CNPJ: '12345678000199',
+    tipoAtendimento: '02',
+    nome: 'Clinica',
+    valorTotal: 123.45,
+    quantidade: 3,
+  };
+
+  it('accepts values that satisfy every facet', async () => {
+    expect(await strictIssues({ ...valid, '@versao': '04.03.00' }, 'facets.xsd')).toEqual([]);
+  });
+
+  it('reports a value outside the enumerated domain', async () => {
+    const issues = await strictIssues({ ...valid, tipoAtendimento: '09' }, 'facets.xsd');
+    expect(issues).toHaveLength(1);
+    expect(issues[0].path).toBe('$.prestador.tipoAtendimento');
+    expect(issues[0].message).toContain('dm_tipoAtendimento');
+  });
+
+  it('reports pattern and length violations of a CNPJ', async () => {
+    const issues = await strictIssues({ ...valid, CNPJ: '12.345.678/0001' }, 'facets.xsd');
+    const messages = issues.map((i) => i.message).join('\n');
+    expect(issues.every((i) => i.path === '$.prestador.CNPJ')).toBe(true);
+    expect(messages).toContain('pattern');
+    expect(messages).toContain('length 14');
+  });
+
+  it('resolves unprefixed type names to schema types of the same name as built-ins', async () => {
+    const dataBr = `<xs:restriction base="xs:string"><xs:pattern value="\\d{2}/\\d{2}/\\d{4}"/></xs:restriction>`;
+    const noNamespace = await compileSchema({
+      content: `<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">
+        <xs:simpleType name="date">${dataBr}</xs:simpleType>
+        <xs:element name="r"><xs:complexType><xs:sequence>
+          <xs:element name="emissao" type="date"/>
+        </xs:sequence></xs:complexType></xs:element>
+      </xs:schema>`,
+    });
+    expect(noNamespace.validate({ r: { emissao: '18/10/2026' } })).toEqual([]);
+    expect(noNamespace.validate({ r: { emissao: '2026-10-18' } })).toHaveLength(1);
+
+    const defaultNamespace = await compileSchema({
+      content: `<schema xmlns="http://www.w3.org/2001/XMLSchema" xmlns:t="urn:t" targetNamespace="urn:t">
+        <simpleType name="date">${dataBr.replace(/xs:/g, '')}</simpleType>
+        <element name="r"><complexType><sequence>
+          <element name="emissao" type="date"/>
+          <element name="vencimento" type="t:date"/>
+        </sequence></complexType></element>
+      </schema>`,
+    });
+    expect(
+      defaultNamespace.validate({ r: { emissao: '2026-10-18', vencimento: '18/10/2026' } }),
+    ).toEqual([]);
+    expect(
+      defaultNamespace
+        .validate({ r: { emissao: '18/10/2026', vencimento: '2026-10-18' } })
+        .map((i) => i.path),
+    ).toEqual(['$.r.emissao', '$.r.vencimento']);
+  });
+
+  it('translates XSD-only escapes and skips patterns JavaScript cannot compile', async () => {
+    const pattern = (name: string, value: string) =>
+      `<xs:element name="${name}" minOccurs="0"><xs:simpleType><xs:restriction base="xs:string">` +
+      `<xs:pattern value="${value}"/></xs:restriction></xs:simpleType></xs:element>`;
+    const compiled = await compileSchema({
+      content: `<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">
+        <xs:element name="r">
+          <xs:complexType>
+            <xs:sequence>
+              ${pattern('ascii', '\\p{IsBasicLatin}+')}
+              ${pattern('letras', '[\\p{L} ]+')}
+              ${pattern('nome', '\\i\\c*')}
+              ${pattern('semLatin1', '[\\P{IsLatin-1Supplement}]+')}
+              ${pattern('consoante', '[a-z-[aeiou]]+')}
+            </xs:sequence>
+          </xs:complexType>
+        </xs:element>
+      </xs:schema>`,
+    });
+    const valid = {
+      ascii: 'Abc 1',
+      letras: 'São Paulo',
+      nome: 'x-1',
+      semLatin1: 'abc',
+      consoante: 'a',
+    };
+    expect(compiled.validate({ r: valid })).toEqual([]);
+    const issues = compiled.validate({
+      r: { ascii: 'Ação', letras: 'SP1', nome: '1x', semLatin1: 'ç' },
+    });
+    expect(issues.map((i) => i.path)).toEqual([
+      '$.r.ascii',
+      '$.r.letras',
+      '$.r.nome',
+      '$.r.semLatin1',
+    ]);
+    expect(compiled.model.diagnostics?.map((d) => [d.severity, d.code, d.reference])).toEqual([
+      ['warning', 'UNSUPPORTED_PATTERN', '[a-z-[aeiou]]+'],
+    ]);
+  });
+
+  it('enforces the facets of every step of a restriction chain', async () => {
+    const issues = await strictIssues({ ...valid, nome: 'clinica' }, 'facets.xsd');
+    expect(issues).toHaveLength(1);
+    expect(issues[0].message).toContain('[A-Z].*');
+    const tooLong = await strictIssues({ ...valid, nome: 'Clinica Central' }, 'facets.xsd');
+    expect(tooLong[0].message).toContain('maximum length 10');
+  });
+
+  it('enforces totalDigits / fractionDigits', async () => {
+    const issues = await strictIssues({ ...valid, valorTotal: 12345.6 }, 'facets.xsd');
+    expect(issues[0].message).toContain('has 6 digits');
+    const fraction = await strictIssues({ ...valid, valorTotal: 1.234 }, 'facets.xsd');
+    expect(fraction[0].message).toContain('fraction digits');
+  });
+
+  it('enforces range facets of inline simple types', async () => {
+    const issues = await strictIssues({ ...valid, quantidade: 100 }, 'facets.xsd');
+    expect(issues).toHaveLength(1);
+    expect(issues[0].path).toBe('$.prestador.quantidade');
+    expect(issues[0].message).toContain('less than 100');
+  });
+
+  it('checks attribute values against their simple type', async () => {
+    const issues = await strictIssues({ ...valid, '@versao': '4.3' }, 'facets.xsd');
+    expect(issues).toHaveLength(1);
+    expect(issues[0].path).toBe('$.prestador.@versao');
+  });
+
+  it('does not check facets when strict mode is off', async () => {
+    const xml = await convertJsonToXml(
+      { ...valid, tipoAtendimento: '09' },
+      resolve(fixturesDir, 'facets.xsd'),
+      { xmlDeclaration: false },
+    );
+    expect(xml).toContain('<tipoAtendimento>09</tipoAtendimento>');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// xs:group / xs:attributeGroup (groups.xsd)
+// ---------------------------------------------------------------------------
+
+describe('convertJsonToXml — model groups and attribute groups', () => {
+  const json = {
+    guia: {
+      '@lote': '42',
+      '@versao': '1.0',
+      auditor: 'Ana',
+      valorTotal: 10.5,
+      carteira: '0001',
+      numeroGuia: 'G-1',
+      registroANS: '123456',
+    },
+  };
+
+  it('emits group members and attribute group attributes in schema order', async () => {
+    const xml = await convertJsonToXml(json, resolve(fixturesDir, 'groups.xsd'), {
+      xmlDeclaration: false,
+    });
+    expect(xml).toBe(
+      '<guia lote="42" versao="1.0"><registroANS>123456</registroANS><numeroGuia>G-1</numeroGuia>' +
+        '<carteira>0001</carteira><valorTotal>10.5</valorTotal><auditor>Ana</auditor></guia>',
+    );
+  });
+
+  it('validates required members of referenced groups in strict mode', async () => {
+    const { carteira: _carteira, '@lote': _lote, ...rest } = json.guia;
+    const issues = await strictIssues({ guia: rest }, 'groups.xsd');
+    expect(issues.map((i) => i.path)).toEqual(['$.guia.@lote', '$.guia.carteira']);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// xs:element ref / xs:attribute ref (refs.xsd)
+// ---------------------------------------------------------------------------
+
+describe('convertJsonToXml — ref= declarations', () => {
+  const json = {
+    mensagem: {
+      '@versao': '1.0',
+      '@xml:lang': 'pt-BR',
+      cabecalho: { origem: 'A' },
+      item: ['x', 'y'],
+      Signature: { SignatureValue: 'c2ln', DigestValue: ['ZA=='] },
+    },
+  };
+
+  it('serializes referenced elements and attributes', async () => {
+    const xml = await convertJsonToXml(json, resolve(fixturesDir, 'refs.xsd'), {
+      xmlDeclaration: false,
+    });
+    // Global attributes are qualified, so the referenced r:versao keeps its prefix
+    expect(xml).toContain('r:versao="1.0"');
+    expect(xml).toContain('xml:lang="pt-BR"');
+    expect(xml).toContain(
+      '<cabecalho><origem xmlns="">A</origem></cabecalho><item>x</item><item>y</item>',
+    );
+    expect(xml).toContain(
+      '<ds:Signature><ds:SignatureValue>c2ln</ds:SignatureValue><ds:DigestValue>ZA==</ds:DigestValue></ds:Signature>',
+    );
+  });
+
+  it('validates referenced declarations in strict mode', async () => {
+    expect(await strictIssues(json, 'refs.xsd')).toEqual([]);
+    const { cabecalho: _cabecalho, '@versao': _versao, ...rest } = json.mensagem;
+    const issues = await strictIssues({ mensagem: rest }, 'refs.xsd');
+    // @versao has a fixed value, which is filled in when omitted
+    expect(issues.map((i) => i.path)).toEqual(['$.mensagem.cabecalho']);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Nested compositors (particles.xsd)
+// ---------------------------------------------------------------------------
+
+describe('convertJsonToXml — nested compositors', () => {
+  const fixture = resolve(fixturesDir, 'particles.xsd');
+
+  it('emits children following the particle tree', async () => {
+    const xml = await convertJsonToXml(
+      {
+        valorTotal: 10,
+        cns: '123',
+        nomeBeneficiario: 'Maria',
+        numeroGuia: 'G1',
+        procedimento: 'P1',
+      },
+      fixture,
+      { prettyPrint: false, xmlDeclaration: false },
+    );
+    expect(xml).toBe(
+      '<guia><numeroGuia>G1</numeroGuia><nomeBeneficiario>Maria</nomeBeneficiario>' +
+        '<cns>123</cns><procedimento>P1</procedimento><valorTotal>10</valorTotal></guia>',
+    );
+  });
+
+  it('interleaves the members of a repeating choice', async () => {
+    const xml = await convertJsonToXml(
+      {
+        numeroGuia: 'G1',
+        carteira: 'C1',
+        procedimento: ['P1', 'P2'],
+        material: ['M1', 'M2'],
+        valorTotal: 10,
+      },
+      fixture,
+      { prettyPrint: false, xmlDeclaration: false },
+    );
+    expect(xml).toContain(
+      '<procedimento>P1</procedimento><material>M1</material>' +
+        '<procedimento>P2</procedimento><material>M2</material>',
+    );
+  });
+
+  it('validates only the choice branch that is present', async () => {
+    const base = { numeroGuia: 'G1', procedimento: 'P1', valorTotal: 10 };
+    expect(await strictIssues({ ...base, carteira: 'C1' }, 'particles.xsd')).toEqual([]);
+    const issues = await strictIssues({ ...base, nomeBeneficiario: 'Maria' }, 'particles.xsd');
+    expect(issues.map((i) => i.path)).toEqual(['$.guia.cns']);
+  });
+
+  it('enforces the members of an optional sequence only when it is used', async () => {
+    const base = { numeroGuia: 'G1', carteira: 'C1', procedimento: 'P1', valorTotal: 10 };
+    expect(await strictIssues(base, 'particles.xsd')).toEqual([]);
+    const issues = await strictIssues({ ...base, codigoGlosa: '1705' }, 'particles.xsd');
+    expect(issues.map((i) => i.path)).toEqual(['$.guia.motivoGlosa']);
+  });
+
+  it('accepts arrays for members of a repeating compositor', async () => {
+    const json = {
+      numeroGuia: 'G1',
+      carteira: 'C1',
+      procedimento: ['P1', 'P2'],
+      material: ['M1'],
+      valorTotal: 10,
+    };
+    expect(await strictIssues(json, 'particles.xsd')).toEqual([]);
+    const issues = await strictIssues({ ...json, numeroGuia: ['G1', 'G2'] }, 'particles.xsd');
+    expect(issues.map((i) => i.path)).toEqual(['$.guia.numeroGuia']);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Derivation by restriction (derivation.xsd)
+// ---------------------------------------------------------------------------
+
+describe('convertJsonToXml — restriction-derived types', () => {
+  const valid = {
+    contato: { '@tipo': 'comercial', nome: 'Ana', email: 'ana@example.com' },
+    valor: { '@moeda': 'BRL', '#text': '10.50' },
+    codigo: { '@tabela': '22', '#text': '10101012' },
+  };
+
+  it('emits the content, attributes and text of restricted types', async () => {
+    const xml = await convertJsonToXml(valid, resolve(fixturesDir, 'derivation.xsd'), {
+      prettyPrint: false,
+      xmlDeclaration: false,
+    });
+    expect(xml).toBe(
+      '<lote><contato tipo="comercial"><nome>Ana</nome><email>ana@example.com</email></contato>' +
+        '<valor moeda="BRL">10.50</valor><codigo tabela="22">10101012</codigo></lote>',
+    );
+  });
+
+  it('accepts JSON matching the restricted types', async () => {
+    expect(await strictIssues(valid, 'derivation.xsd')).toEqual([]);
+  });
+
+  it('reports narrowed and prohibited attributes and restricted content', async () => {
+    const issues = await strictIssues(
+      { ...valid, contato: { '@legado': 'x', nome: 'Ana', telefone: '123' } },
+      'derivation.xsd',
+    );
+    expect(issues.map((i) => i.path)).toEqual([
+      '$.lote.contato.@tipo',
+      '$.lote.contato.@legado',
+      '$.lote.contato.email',
+      '$.lote.contato.telefone',
+    ]);
+    expect(issues[1].message).toBe('Attribute "legado" is prohibited.');
+  });
+
+  it('checks simpleContent text against the restriction facets', async () => {
+    const issues = await strictIssues(
+      { ...valid, valor: { '#text': '-1.234' }, codigo: { '#text': 'ABC' } },
+      'derivation.xsd',
+    );
+    expect(issues.map((i) => i.path)).toEqual([
+      '$.lote.valor.#text',
+      '$.lote.valor.#text',
+      '$.lote.codigo.#text',
+    ]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// xs:list / xs:union (list-union.xsd)
+// ---------------------------------------------------------------------------
+
+describe('convertJsonToXml — xs:list and xs:union', () => {
+  const valid = {
+    '@regioes': [1, 2],
+    codigos: ['10101012', '20104014'],
+    dentes: '11 21',
+    validade: '2026-12-31',
+    quantidade: 'ilimitado',
+  };
+
+  it('serializes list values given as arrays as whitespace-separated text', async () => {
+    const xml = await convertJsonToXml(valid, resolve(fixturesDir, 'list-union.xsd'), {
+      prettyPrint: false,
+      xmlDeclaration: false,
+    });
+    expect(xml).toBe(
+      '<autorizacao regioes="1 2"><codigos>10101012 20104014</codigos><dentes>11 21</dentes>' +
+        '<validade>2026-12-31</validade><quantidade>ilimitado</quantidade></autorizacao>',
+    );
+  });
+
+  it('accepts valid list and union values', async () => {
+    expect(await strictIssues(valid, 'list-union.xsd')).toEqual([]);
+    expect(
+      await strictIssues({ ...valid, validade: 'indeterminada', quantidade: 3 }, 'list-union.xsd'),
+    ).toEqual([]);
+  });
+
+  it('checks every list item and the list length', async () => {
+    const issues = await strictIssues(
+      {
+        ...valid,
+        '@regioes': ['1', 'x'],
+        codigos: ['10101012', '123'],
+        dentes: [11, 21, 31, 41, 50],
+      },
+      'list-union.xsd',
+    );
+    expect(issues.map((i) => i.path)).toEqual([
+      '$.autorizacao.@regioes',
+      '$.autorizacao.codigos',
+      '$.autorizacao.dentes',
+      '$.autorizacao.dentes',
+    ]);
+    expect(issues[0].message).toContain('not a valid xs:integer');
+    expect(issues[3].message).toContain('maximum length 4');
+  });
+
+  it('reports a value that matches no union member', async () => {
+    const issues = await strictIssues(
+      { ...valid, validade: '31/12/2026', quantidade: 0 },
+      'list-union.xsd',
+    );
+    expect(issues.map((i) => i.path)).toEqual([
+      '$.autorizacao.validade',
+      '$.autorizacao.quantidade',
+    ]);
+    expect(issues[1].message).toContain('xs:positiveInteger, st_ilimitado');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Substitution groups (substitution.xsd)
+// ---------------------------------------------------------------------------
+
+describe('convertJsonToXml — substitution groups', () => {
+  const json = {
+    numeroLote: '1',
+    guiaConsulta: [{ numeroGuia: 'G1', dataAtendimento: '2026-05-02' }],
+    guiaSimples: { numeroGuia: 'G2' },
+  };
+
+  it('emits members with their own tag and type where the head is declared', async () => {
+    const xml = await convertJsonToXml(json, resolve(fixturesDir, 'substitution.xsd'), {
+      prettyPrint: false,
+      xmlDeclaration: false,
+    });
+    expect(xml).toBe(
+      '<lote xmlns="urn:test:substitution"><numeroLote>1</numeroLote>' +
+        '<guiaConsulta><numeroGuia>G1</numeroGuia><dataAtendimento>2026-05-02</dataAtendimento></guiaConsulta>' +
+        '<guiaSimples><numeroGuia>G2</numeroGuia></guiaSimples></lote>',
+    );
+  });
+
+  it('accepts substitution group members in strict mode', async () => {
+    expect(await strictIssues(json, 'substitution.xsd')).toEqual([]);
+  });
+
+  it('rejects direct use of an abstract head', async () => {
+    const issues = await strictIssues(
+      { numeroLote: '1', guia: { numeroGuia: 'G1' } },
+      'substitution.xsd',
+    );
+    expect(issues).toHaveLength(1);
+    expect(issues[0].path).toBe('$.lote.guia');
+    expect(issues[0].message).toContain('"guiaConsulta", "guiaRetorno", "guiaSimples"');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// xsi:type polymorphism (xsi-type.xsd)
+// ---------------------------------------------------------------------------
+
+describe('convertJsonToXml — xsi:type', () => {
+  const fixture = resolve(fixturesDir, 'xsi-type.xsd');
+  const json: JsonObject = {
+    guia: [
+      { numeroGuia: 'G1' },
+      {
+        '@xsi:type': 'GuiaConsultaType',
+        '@tipoConsulta': '1',
+        numeroGuia: 'G2',
+        dataAtendimento: '2026-05-02',
+      },
+    ],
+  };
+
+  it('builds the element from the derived type and writes xsi:type', async () => {
+    const xml = await convertJsonToXml(json, fixture, {
+      prettyPrint: false,
+      xmlDeclaration: false,
+    });
+    expect(xml).toBe(
+      '<pagamento xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">' +
+        '<guia><numeroGuia>G1</numeroGuia></guia>' +
+        '<guia xsi:type="GuiaConsultaType" tipoConsulta="1"><numeroGuia>G2</numeroGuia>' +
+        '<dataAtendimento>2026-05-02</dataAtendimento></guia></pagamento>',
+    );
+  });
+
+  it('declares the namespace of a type from another namespace on the root', async () => {
+    const xml = await convertJsonToXml(
+      { guia: { numeroGuia: 'G1' }, contato: { '@xsi:type': 'ct:PhoneType', numero: '5555' } },
+      fixture,
+      { prettyPrint: false, xmlDeclaration: false },
+    );
+    expect(xml).toContain('<pagamento xmlns:ct="http://example.com/contact"');
+    expect(xml).toContain('<contato xsi:type="ct:PhoneType"><ct:numero>5555</ct:numero></contato>');
+  });
+
+  it('accepts the derived content in strict mode', async () => {
+    expect(await strictIssues(json, 'xsi-type.xsd')).toEqual([]);
+  });
+
+  it('rejects a type that does not derive from the declared type', async () => {
+    const bad = { guia: { '@xsi:type': 'ReciboType', numeroRecibo: '1' } };
+    const issues = await strictIssues(bad, 'xsi-type.xsd');
+    expect(issues.map((i) => i.path)).toEqual(['$.pagamento.guia.@xsi:type']);
+    await expect(convertJsonToXml(bad, fixture)).rejects.toThrow(XsdMappingError);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Namespace-qualified output (namespaces.xsd)
+// ---------------------------------------------------------------------------
+
+describe('convertJsonToXml — namespace qualification', () => {
+  const fixture = resolve(fixturesDir, 'namespaces.xsd');
+  const json = {
+    pedido: {
+      '@id': '7',
+      '@origem': 'web',
+      '@versao': '2',
+      numero: '42',
+      observacao: 'urgente',
+      telefone: { '@tipo': 'celular', numero: '5555' },
+      Signature: { SignatureValue: 'c2ln' },
+    },
+  };
+
+  it('qualifies elements and attributes, declaring every prefix on the root', async () => {
+    const xml = await convertJsonToXml(json, fixture, { xmlDeclaration: false });
+    expect(xml).toBe(
+      '<pedido xmlns="urn:test:namespaces" id="7" xmlns:n="urn:test:namespaces" n:origem="web"' +
+        ' n:versao="2" xmlns:c="http://example.com/contact"' +
+        ' xmlns:ds="http://www.w3.org/2000/09/xmldsig#">' +
+        '<numero>42</numero><observacao xmlns="">urgente</observacao>' +
+        '<telefone tipo="celular"><c:numero>5555</c:numero></telefone>' +
+        '<ds:Signature><ds:SignatureValue>c2ln</ds:SignatureValue></ds:Signature></pedido>',
+    );
+  });
+
+  it('uses the prefixes given in namespacePrefixes', async () => {
+    const xml = await convertJsonToXml(json, fixture, {
+      xmlDeclaration: false,
+      namespacePrefixes: { ped: 'urn:test:namespaces', sig: 'http://www.w3.org/2000/09/xmldsig#' },
+    });
+    expect(xml).toBe(
+      '<ped:pedido xmlns:ped="urn:test:namespaces" id="7" ped:origem="web" ped:versao="2"' +
+        ' xmlns:c="http://example.com/contact" xmlns:sig="http://www.w3.org/2000/09/xmldsig#">' +
+        '<ped:numero>42</ped:numero><observacao>urgente</observacao>' +
+        '<ped:telefone tipo="celular"><c:numero>5555</c:numero></ped:telefone>' +
+        '<sig:Signature><sig:SignatureValue>c2ln</sig:SignatureValue></sig:Signature>' +
+        '</ped:pedido>',
+    );
+  });
+});
+
+// ---------------------------------------------------------------------------
+// compileSchema — reusable compiled schema and its cache
+// ---------------------------------------------------------------------------
+
+describe('compileSchema', () => {
+  it('converts and validates many documents with one parse', async () => {
+    const schema = await compileSchema(resolve(fixturesDir, 'xsi-type.xsd'));
+    expect(schema.model.sourceFiles).toEqual([
+      resolve(fixturesDir, 'xsi-type.xsd'),
+      resolve(fixturesDir, 'contact-types.xsd'),
+    ]);
+    const json = { guia: { numeroGuia: 'G1' } };
+    const xml = schema.convert(json, { xmlDeclaration: false });
+    expect(xml).toBe('<pagamento><guia><numeroGuia>G1</numeroGuia></guia></pagamento>');
+    expect(schema.convert(json, { xmlDeclaration: false })).toBe(xml);
+    expect(schema.validate(json)).toEqual([]);
+    expect(schema.validate({ guia: {} })).toEqual([
+      expect.objectContaining({ path: '$.pagamento.guia.numeroGuia' }),
+    ]);
+  });
+
+  it('selects the root element like convertJsonToXml', async () => {
+    const schema = await compileSchema(resolve(fixturesDir, 'refs-dsig.xsd'));
+    const xml = schema.convert({ SignatureValue: 'c2ln' }, { xmlDeclaration: false });
+    expect(xml).toBe(
+      '<SignatureValue xmlns="http://www.w3.org/2000/09/xmldsig#">c2ln</SignatureValue>',
+    );
+  });
+
+  it('caches compiled schemas until a schema file changes', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'xsd-cache-'));
+    try {
+      await copyFile(resolve(fixturesDir, 'xsi-type.xsd'), join(dir, 'xsi-type.xsd'));
+      await copyFile(resolve(fixturesDir, 'contact-types.xsd'), join(dir, 'contact-types.xsd'));
+      const first = await compileSchema('xsi-type.xsd', { xsdBaseDir: dir, cache: true });
+      expect(await compileSchema(join(dir, 'xsi-type.xsd'), { cache: true })).toBe(first);
+      expect(await compileSchema('xsi-type.xsd', { xsdBaseDir: dir })).not.toBe(first);
+
+      // Touching an imported schema invalidates the entry
+      const later = new Date(Date.now() + 60_000);
+      await utimes(join(dir, 'contact-types.xsd'), later, later);
+      const second = await compileSchema('xsi-type.xsd', { xsdBaseDir: dir, cache: true });
+      expect(second).not.toBe(first);
+      expect(await compileSchema('xsi-type.xsd', { xsdBaseDir: dir, cache: true })).toBe(second);
+
+      clearSchemaCache();
+      expect(await compileSchema('xsi-type.xsd', { xsdBaseDir: dir, cache: true })).not.toBe(
+        second,
+      );
+    } finally {
+      clearSchemaCache();
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('caches a schema apart for each resolver and failOnUnresolved', async () => {
+    const path = resolve(fixturesDir, 'url-imports.xsd');
+    const plain = await compileSchema(path, { cache: true });
+    expect(plain.model.diagnostics).not.toEqual([]);
+    const resolver = catalogResolver(resolve(fixturesDir, 'catalog.xml'));
+    const mapped = await compileSchema(path, { cache: true, resolver });
+    expect(mapped).not.toBe(plain);
+    expect(mapped.model.diagnostics).toEqual([]);
+    expect(await compileSchema(path, { cache: true, resolver })).toBe(mapped);
+    await expect(compileSchema(path, { cache: true, failOnUnresolved: true })).rejects.toThrow();
+    expect(await compileSchema(path, { cache: true })).toBe(plain);
+    clearSchemaCache(path);
+    expect(await compileSchema(path, { cache: true, resolver })).not.toBe(mapped);
+    clearSchemaCache(path);
+  });
+
+  it('keys the cache by a custom string', async () => {
+    const schema = await compileSchema(resolve(fixturesDir, 'simple.xsd'), { cache: 'simple' });
+    expect(await compileSchema('ignored.xsd', { cache: 'simple' })).toBe(schema);
+    clearSchemaCache('simple');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Schema resolvers (url-imports.xsd / catalog.xml)
+// ---------------------------------------------------------------------------
+
+describe('convertJsonToXml — resolver option', () => {
+  it('converts with URL imports mapped by an XML catalog', async () => {
+    const xml = await convertJsonToXml(
+      { cadastro: { telefone: { numero: '5555' }, Signature: { SignatureValue: 'c2ln' } } },
+      resolve(fixturesDir, 'url-imports.xsd'),
+      {
+        xmlDeclaration: false,
+        resolver: catalogResolver(resolve(fixturesDir, 'catalog.xml')),
+        failOnUnresolved: true,
+      },
+    );
+    expect(xml).toBe(
+      '<cadastro xmlns:ct="http://example.com/contact" xmlns:ds="http://www.w3.org/2000/09/xmldsig#">' +
+        '<telefone><ct:numero>5555</ct:numero></telefone>' +
+        '<ds:Signature><ds:SignatureValue>c2ln</ds:SignatureValue></ds:Signature></cadastro>',
+    );
+  });
+});
+
+// ---------------------------------------------------------------------------
+
+describe('convertJsonToXml — schema text', () => {
+  const schema = {
+    content: `<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">
+        <xs:include schemaLocation="tipos.xsd"/>
+        <xs:element name="pedido" type="TipoPedido"/>
+      </xs:schema>`,
+    documents: {
+      'tipos.xsd': `<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">
+          <xs:complexType name="TipoPedido">
+            <xs:sequence><xs:element name="numero" type="xs:int"/></xs:sequence>
+          </xs:complexType>
+        </xs:schema>`,
+    },
+  };
+
+  it('converts with a schema given as text plus its included documents', async () => {
+    const xml = await convertJsonToXml({ pedido: { numero: 7 } }, schema, {
+      xmlDeclaration: false,
+      failOnUnresolved: true,
+    });
+    expect(xml).toBe('<pedido><numero>7</numero></pedido>');
+  });
+
+  it('loads a reusable schema from text through the core entry point', async () => {
+    const { loadSchema } = await import('../src/core.js');
+    const compiled = await loadSchema(schema);
+    expect(compiled.convert({ pedido: { numero: 1 } }, { xmlDeclaration: false })).toBe(
+      '<pedido><numero>1</numero></pedido>',
+    );
+    expect(compiled.validate({ pedido: {} })).toHaveLength(1);
+    expect(await compiled.isStale()).toBe(false);
+  });
+});
+
+// ---------------------------------------------------------------------------
+
+describe('convertJsonToXml — WSDL operations', () => {
+  const wsdl = resolve(fixturesDir, 'service.wsdl');
+
+  it('selects the root element from the input message of the operation', async () => {
+    const xml = await convertJsonToXml(
+      { numero: '42', item: [{ codigo: 'A1', quantidade: 2 }] },
+      wsdl,
+      { operation: 'Envio', xmlDeclaration: false },
+    );
+    expect(xml).toBe(
+      '<enviaPedido xmlns="urn:test:service" xmlns:t="urn:test:service:types">' +
+        '<numero>42</numero><item><t:codigo>A1</t:codigo><t:quantidade>2</t:quantidade></item>' +
+        '</enviaPedido>',
+    );
+  });
+
+  it('validates against the element of the operation', async () => {
+    const schema = await compileSchema(wsdl);
+    expect(schema.validate({ numero: '1' }, { operation: 'Consulta' })).toEqual([]);
+    expect(schema.validate({ numero: '1' }, { operation: 'Envio' }).map((i) => i.path)).toEqual([
+      '$.enviaPedido.item',
+    ]);
+  });
+
+  it('throws XsdMappingError for an unknown operation', async () => {
+    const schema = await compileSchema(wsdl);
+    expect(() => schema.convert({}, { operation: 'Cancela' })).toThrow(
+      /Unknown WSDL operation \(available: Consulta, Envio\)/,
+    );
+    const xsd = await compileSchema(resolve(fixturesDir, 'simple.xsd'));
+    expect(() => xsd.convert({}, { operation: 'Envio' })).toThrow(XsdMappingError);
+  });
+});
+
+// ---------------------------------------------------------------------------
+
+describe('convertJsonToSoap', () => {
+  const wsdl = resolve(fixturesDir, 'service.wsdl');
+
+  it('wraps the request of an operation in a SOAP 1.1 envelope', async () => {
+    const message = await convertJsonToSoap({ numero: '42' }, wsdl, {
+      operation: 'Consulta',
+      xmlDeclaration: false,
+    });
+    expect(message.xml).toBe(
+      '<soap:Envelope xmlns:soap="http://schemas.xmlsoap.org/soap/envelope/"><soap:Body>' +
+        '<consultaPedido xmlns="urn:test:service"><numero>42</numero></consultaPedido>' +
+        '</soap:Body></soap:Envelope>',
+    );
+    expect(message.soapVersion).toBe('1.1');
+    expect(message.soapAction).toBe('urn:test:service/Consulta');
+    expect(message.httpHeaders).toEqual({
+      'Content-Type': 'text/xml; charset=UTF-8',
+      SOAPAction: '"urn:test:service/Consulta"',
+    });
+  });
+
+  it('uses the SOAP 1.2 namespace and binding when asked to', async () => {
+    const message = await convertJsonToSoap({ numero: '1', item: [] }, wsdl, {
+      operation: 'Envio',
+      soapVersion: '1.2',
+      envelopePrefix: 'env',
+      xmlDeclaration: false,
+    });
+    expect(message.xml).toMatch(
+      /^<env:Envelope xmlns:env="http:\/\/www.w3.org\/2003\/05\/soap-envelope"><env:Body><enviaPedido /,
+    );
+    expect(message.soapAction).toBe('urn:test:service/Envio12');
+    expect(message.contentType).toBe(
+      'application/soap+xml; charset=UTF-8; action="urn:test:service/Envio12"',
+    );
+    expect(message.httpHeaders).toEqual({ 'Content-Type': message.contentType });
+  });
+
+  it('builds header blocks from schema declarations or as plain XML', async () => {
+    const message = await convertJsonToSoap({ numero: '42' }, wsdl, {
+      operation: 'Consulta',
+      xmlDeclaration: false,
+      soapHeader: {
+        recibo: { protocolo: 'P-1' },
+        'wsse:Security': {
+          '@xmlns:wsse': 'urn:test:wsse',
+          'wsse:UsernameToken': { 'wsse:Username': 'user' },
+        },
+      },
+    });
+    expect(message.xml).toContain(
+      '<soap:Header><recibo xmlns="urn:test:service"><protocolo>P-1</protocolo></recibo>' +
+        '<wsse:Security xmlns:wsse="urn:test:wsse"><wsse:UsernameToken><wsse:Username>user' +
+        '</wsse:Username></wsse:UsernameToken></wsse:Security></soap:Header><soap:Body>',
+    );
+  });
+
+  it('validates header blocks declared in the schema with strict', async () => {
+    await expect(
+      convertJsonToSoap({ numero: '42' }, wsdl, {
+        operation: 'Consulta',
+        strict: true,
+        soapHeader: { recibo: {} },
+      }),
+    ).rejects.toThrow(XsdValidationError);
+  });
+
+  it('defaults to SOAP 1.1 without an action for plain XSD schemas', async () => {
+    const message = await convertJsonToSoap(
+      { person: { '@id': '1', name: 'Alice', age: 30 } },
+      resolve(fixturesDir, 'simple.xsd'),
+    );
+    expect(message.xml).toMatch(/^<\?xml version="1.0" encoding="UTF-8"\?><soap:Envelope /);
+    expect(message.soapAction).toBeUndefined();
+    expect(message.httpHeaders.SOAPAction).toBe('""');
+  });
+});
+
+// ---------------------------------------------------------------------------
+
+describe('validation issues — schema documentation', () => {
+  const schema = {
+    content: `<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">
+      <xs:element name="guia">
+        <xs:complexType>
+          <xs:sequence>
+            <xs:element name="carteira" type="xs:string">
+              <xs:annotation>
+                <xs:documentation>Número da carteira do beneficiário</xs:documentation>
+              </xs:annotation>
+            </xs:element>
+            <xs:element name="valor" type="xs:string" minOccurs="0"/>
+          </xs:sequence>
+        </xs:complexType>
+      </xs:element>
+    </xs:schema>`,
+  };
+
+  it('attaches the documentation of the element to its issues', async () => {
+    const compiled = await compileSchema(schema);
+    expect(compiled.validate({ guia: { valor: '1' } })).toEqual([
+      {
+        path: '$.guia.carteira',
+        message: 'Required element "carteira" (minOccurs=1) is missing.',
+        documentation: 'Número da carteira do beneficiário',
+      },
+    ]);
+  });
+
+  it('leaves undocumented issues without documentation', async () => {
+    const compiled = await compileSchema(schema);
+    const issues = compiled.validate({ guia: { carteira: '1', valor: { x: 1 } } });
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).not.toHaveProperty('documentation');
+  });
+});
+
+// ---------------------------------------------------------------------------
+
+describe('convertJsonToXml — null values and nillable elements', () => {
+  const schema = {
+    content: `<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">
+      <xs:element name="guia">
+        <xs:complexType>
+          <xs:sequence>
+            <xs:element name="numero" type="xs:string"/>
+            <xs:element name="dataAlta" type="xs:date" nillable="true"/>
+            <xs:element name="observacao" type="xs:string" minOccurs="0"/>
+            <xs:element name="senha" type="xs:string" minOccurs="0" nillable="true"/>
+          </xs:sequence>
+        </xs:complexType>
+      </xs:element>
+    </xs:schema>`,
+  };
+  const xsi = 'xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"';
+  const json = { guia: { numero: '1', dataAlta: null, observacao: null, senha: null } };
+
+  it('writes xsi:nil for null nillable elements and omits other optional nulls', async () => {
+    const xml = await convertJsonToXml(json, schema, { xmlDeclaration: false, strict: true });
+    expect(xml).toBe(
+      `<guia ${xsi}><numero>1</numero><dataAlta xsi:nil="true"/><senha xsi:nil="true"/></guia>`,
+    );
+  });
+
+  it('omits or empties optional nulls as nullHandling asks', async () => {
+    const omitted = await convertJsonToXml(json, schema, {
+      xmlDeclaration: false,
+      nullHandling: 'omit',
+    });
+    expect(omitted).toBe(`<guia ${xsi}><numero>1</numero><dataAlta xsi:nil="true"/></guia>`);
+    const empty = await convertJsonToXml(json, schema, {
+      xmlDeclaration: false,
+      nullHandling: 'empty',
+    });
+    expect(empty).toBe(
+      `<guia ${xsi}><numero>1</numero><dataAlta xsi:nil="true"/><observacao/><senha/></guia>`,
+    );
+  });
+
+  it('reports null for a required element that is not nillable', async () => {
+    const compiled = await compileSchema(schema);
+    expect(compiled.validate({ guia: { numero: null, dataAlta: null } })).toEqual([
+      {
+        path: '$.guia.numero',
+        message: 'Element "numero" is required and not nillable, but is null.',
+      },
+    ]);
+    expect(
+      compiled.convert(
+        { guia: { numero: null, dataAlta: '2024-01-02' } },
+        { xmlDeclaration: false },
+      ),
+    ).toBe('<guia><numero/><dataAlta>2024-01-02</dataAlta></guia>');
+  });
+});
+
+// ---------------------------------------------------------------------------
+
+describe('convertJsonToXml — default and fixed values', () => {
+  const schema = {
+    content: `<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">
+      <xs:element name="mensagem">
+        <xs:complexType>
+          <xs:sequence>
+            <xs:element name="padrao" type="xs:string" fixed="4.03.00"/>
+            <xs:element name="lote" type="xs:string"/>
+            <xs:element name="prioridade" type="xs:int" minOccurs="0" default="1"/>
+            <xs:element name="origem" type="xs:string" minOccurs="0" fixed="WS"/>
+            <xs:choice>
+              <xs:element name="cpf" type="xs:string" fixed="0"/>
+              <xs:element name="cnpj" type="xs:string"/>
+            </xs:choice>
+          </xs:sequence>
+          <xs:attribute name="versao" type="xs:decimal" fixed="1.0"/>
+        </xs:complexType>
+      </xs:element>
+    </xs:schema>`,
+  };
+
+  it('fills in fixed attributes and required fixed elements the JSON omits', async () => {
+    const xml = await convertJsonToXml({ mensagem: { lote: '7', cnpj: '1' } }, schema, {
+      xmlDeclaration: false,
+      strict: true,
+    });
+    expect(xml).toBe(
+      '<mensagem versao="1.0"><padrao>4.03.00</padrao><lote>7</lote><cnpj>1</cnpj></mensagem>',
+    );
+  });
+
+  it('fills in element defaults with elementDefaults', async () => {
+    const xml = await convertJsonToXml({ mensagem: { lote: '7', cnpj: '1' } }, schema, {
+      xmlDeclaration: false,
+      elementDefaults: true,
+    });
+    expect(xml).toBe(
+      '<mensagem versao="1.0"><padrao>4.03.00</padrao><lote>7</lote>' +
+        '<prioridade>1</prioridade><origem>WS</origem><cnpj>1</cnpj></mensagem>',
+    );
+  });
+
+  it('reports values that differ from the fixed value', async () => {
+    const compiled = await compileSchema(schema);
+    expect(
+      compiled.validate({ mensagem: { '@versao': 1, padrao: '4.03.00', lote: '7', cnpj: '1' } }),
+    ).toEqual([]);
+    const issues = compiled.validate({
+      mensagem: { '@versao': '2.0', padrao: '3.05.00', lote: '7', cpf: '1' },
+    });
+    expect(issues.map((i) => [i.path, i.message])).toEqual([
+      ['$.mensagem.@versao', 'Attribute "versao" has the fixed value "1.0", but "2.0" was given.'],
+      [
+        '$.mensagem.padrao',
+        'Element "padrao" has the fixed value "4.03.00", but "3.05.00" was given.',
+      ],
+      ['$.mensagem.cpf', 'Element "cpf" has the fixed value "0", but "1" was given.'],
+    ]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Identity constraints (identity.xsd)
+// ---------------------------------------------------------------------------
+
+describe('convertJsonToXml — identity constraints', () => {
+  const valid: JsonObject = {
+    lote: {
+      procedimento: [
+        { '@tabela': '22', '@codigo': '10101012' },
+        { '@tabela': '22', '@codigo': '10101039' },
+      ],
+      guia: [
+        { numero: '1', item: [{ '@tabela': '22', '@id': 'i1', codigo: '10101012' }] },
+        { numero: '2', item: [{ '@tabela': '22', '@substitui': 'i1', codigo: '10101039' }] },
+        { item: [{ '@tabela': '22', codigo: '10101012' }] },
+      ],
+    },
+  };
+
+  it('accepts unique keys and references that resolve', async () => {
+    expect(await strictIssues(valid, 'identity.xsd')).toEqual([]);
+  });
+
+  it('reports duplicate unique and key values', async () => {
+    const lote = valid.lote as JsonObject;
+    const issues = await strictIssues(
+      {
+        lote: {
+          procedimento: [
+            ...(lote.procedimento as JsonObject[]),
+            { '@tabela': '22', '@codigo': '10101012' },
+          ],
+          guia: [...(lote.guia as JsonObject[]), { numero: '1', item: [{ codigo: '1' }] }],
+        },
+      },
+      'identity.xsd',
+    );
+    expect(issues.map((i) => [i.path, i.message])).toEqual([
+      [
+        '$.lote.guia[3].numero',
+        'Duplicate value "1" for unique "guiaUnica" (first at $.lote.guia[0].numero).',
+      ],
+      [
+        '$.lote.procedimento[2]',
+        'Duplicate value "22", "10101012" for key "procedimentoKey" (first at $.lote.procedimento[0]).',
+      ],
+    ]);
+  });
+
+  it('reports missing key fields, dangling keyrefs and IDREFs', async () => {
+    const issues = await strictIssues(
+      {
+        lote: {
+          procedimento: [{ '@tabela': '22' }],
+          guia: [
+            {
+              item: [
+                { '@tabela': '22', '@id': 'i1', codigo: '999' },
+                { '@tabela': '22', '@id': 'i1', '@substitui': 'i9', codigo: '999' },
+              ],
+            },
+          ],
+        },
+      },
+      'identity.xsd',
+    );
+    expect(issues.map((i) => [i.path, i.message])).toEqual([
+      ['$.lote.procedimento[0]', 'Key "procedimentoKey" requires a value for field "@codigo".'],
+      [
+        '$.lote.guia[0].item[1].@id',
+        'Duplicate xs:ID value "i1" (first at $.lote.guia[0].item[0].@id).',
+      ],
+      [
+        '$.lote.guia[0].item[0]',
+        'Value "22", "999" of keyref "itemProcedimento" does not match any "procedimentoKey" key.',
+      ],
+      [
+        '$.lote.guia[0].item[1]',
+        'Value "22", "999" of keyref "itemProcedimento" does not match any "procedimentoKey" key.',
+      ],
+      ['$.lote.guia[0].item[1].@substitui', 'xs:IDREF value "i9" does not match any xs:ID.'],
+    ]);
+  });
+
+  it('compares key values in the lexical form written', async () => {
+    const compiled = await compileSchema({
+      content: `<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">
+        <xs:element name="agenda">
+          <xs:complexType>
+            <xs:sequence>
+              <xs:element name="dia" type="xs:date" maxOccurs="unbounded"/>
+            </xs:sequence>
+          </xs:complexType>
+          <xs:unique name="diaUnico">
+            <xs:selector xpath="dia"/>
+            <xs:field xpath="."/>
+          </xs:unique>
+        </xs:element>
+      </xs:schema>`,
+    });
+    const issues = compiled.validate({
+      agenda: { dia: [new Date('2020-01-02T00:00:00Z'), '2020-01-02Z'] },
+    });
+    expect(issues.map((i) => [i.path, i.message])).toEqual([
+      [
+        '$.agenda.dia[1]',
+        'Duplicate value "2020-01-02Z" for unique "diaUnico" (first at $.agenda.dia[0]).',
+      ],
+    ]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Occurrence counts and xs:choice
+// ---------------------------------------------------------------------------
+
+describe('convertJsonToXml — occurrence counts and choices', () => {
+  const schema = {
+    content: `<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">
+      <xs:element name="guia">
+        <xs:complexType>
+          <xs:sequence>
+            <xs:element name="procedimento" type="xs:string" minOccurs="2" maxOccurs="3"/>
+            <xs:choice>
+              <xs:element name="cpf" type="xs:string"/>
+              <xs:sequence>
+                <xs:element name="cnpj" type="xs:string"/>
+                <xs:element name="filial" type="xs:string" minOccurs="0"/>
+              </xs:sequence>
+            </xs:choice>
+          </xs:sequence>
+        </xs:complexType>
+      </xs:element>
+    </xs:schema>`,
+  };
+
+  it('accepts counts within minOccurs and maxOccurs and a single branch', async () => {
+    const compiled = await compileSchema(schema);
+    expect(compiled.validate({ guia: { procedimento: ['1', '2'], cpf: '9' } })).toEqual([]);
+    expect(
+      compiled.validate({ guia: { procedimento: ['1', '2', '3'], cnpj: '9', filial: '1' } }),
+    ).toEqual([]);
+  });
+
+  it('reports counts below minOccurs or above maxOccurs', async () => {
+    const compiled = await compileSchema(schema);
+    const issues = [
+      ...compiled.validate({ guia: { procedimento: '1', cpf: '9' } }),
+      ...compiled.validate({ guia: { procedimento: [], cpf: '9' } }),
+      ...compiled.validate({ guia: { procedimento: ['1', '2', '3', '4'], cpf: '9' } }),
+    ];
+    expect(issues.map((i) => [i.path, i.message])).toEqual([
+      ['$.guia.procedimento', 'Element "procedimento" occurs 1 time(s), but minOccurs=2.'],
+      ['$.guia.procedimento', 'Element "procedimento" occurs 0 time(s), but minOccurs=2.'],
+      ['$.guia.procedimento', 'Element "procedimento" occurs 4 time(s), but maxOccurs=3.'],
+    ]);
+  });
+
+  it('reports more than one branch of a choice, or none', async () => {
+    const compiled = await compileSchema(schema);
+    const issues = [
+      ...compiled.validate({ guia: { procedimento: ['1', '2'], cpf: '9', cnpj: '8' } }),
+      ...compiled.validate({ guia: { procedimento: ['1', '2'] } }),
+    ];
+    expect(issues.map((i) => [i.path, i.message])).toEqual([
+      [
+        '$.guia',
+        'Only one branch of the choice may be given, but "cpf", ("cnpj", "filial") were given.',
+      ],
+      [
+        '$.guia',
+        'One branch of the choice "cpf" | ("cnpj", "filial") is required, but none was given.',
+      ],
+    ]);
+  });
+
+  it('refuses to write more than one branch with exclusiveChoice', async () => {
+    const json = { guia: { procedimento: ['1', '2'], cpf: '9', cnpj: '8' } };
+    const xml = await convertJsonToXml(json, schema, { xmlDeclaration: false });
+    expect(xml).toBe(
+      '<guia><procedimento>1</procedimento><procedimento>2</procedimento><cpf>9</cpf><cnpj>8</cnpj></guia>',
+    );
+    await expect(convertJsonToXml(json, schema, { exclusiveChoice: true })).rejects.toThrowError(
+      XsdMappingError,
+    );
+    await expect(convertJsonToXml(json, schema, { exclusiveChoice: true })).rejects.toThrowError(
+      'Only one branch of the choice may be given, but "cpf", ("cnpj", "filial") were given.',
+    );
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Lexical forms of typed values
+// ---------------------------------------------------------------------------
+
+describe('convertJsonToXml — lexical forms of typed values', () => {
+  const schema = {
+    content: `<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">
+      <xs:simpleType name="st_valor">
+        <xs:restriction base="xs:decimal">
+          <xs:fractionDigits value="2"/>
+        </xs:restriction>
+      </xs:simpleType>
+      <xs:element name="guia">
+        <xs:complexType>
+          <xs:sequence>
+            <xs:element name="internado" type="xs:boolean"/>
+            <xs:element name="quantidade" type="xs:int"/>
+            <xs:element name="valor" type="st_valor"/>
+            <xs:element name="dataAtendimento" type="xs:date"/>
+            <xs:element name="horaInicial" type="xs:time" minOccurs="0"/>
+            <xs:element name="emitidaEm" type="xs:dateTime"/>
+            <xs:element name="anexo" type="xs:base64Binary" minOccurs="0"/>
+          </xs:sequence>
+          <xs:attribute name="lote" type="xs:integer"/>
+        </xs:complexType>
+      </xs:element>
+    </xs:schema>`,
+  };
+  const guia = {
+    '@lote': 1e21,
+    internado: 1,
+    quantidade: 3,
+    valor: 10.5,
+    dataAtendimento: new Date('2024-03-05T01:00:00Z'),
+    horaInicial: new Date('2024-03-05T01:00:00Z'),
+    emitidaEm: new Date('2024-03-05T01:30:00.250Z'),
+    anexo: Buffer.from('PDF!'),
+  };
+
+  it('writes numbers, booleans, Dates and binary values in canonical form', async () => {
+    const xml = await convertJsonToXml({ guia }, schema, { xmlDeclaration: false, strict: true });
+    expect(xml).toBe(
+      '<guia lote="1000000000000000000000"><internado>true</internado>' +
+        '<quantidade>3</quantidade><valor>10.50</valor>' +
+        '<dataAtendimento>2024-03-05Z</dataAtendimento><horaInicial>01:00:00Z</horaInicial>' +
+        '<emitidaEm>2024-03-05T01:30:00.25Z</emitidaEm><anexo>UERGIQ==</anexo></guia>',
+    );
+  });
+
+  it('writes Dates in the time of the timezone option', async () => {
+    const xml = await convertJsonToXml({ guia }, schema, {
+      xmlDeclaration: false,
+      timezone: '-03:00',
+    });
+    expect(xml).toContain('<dataAtendimento>2024-03-04-03:00</dataAtendimento>');
+    expect(xml).toContain('<horaInicial>22:00:00-03:00</horaInicial>');
+    expect(xml).toContain('<emitidaEm>2024-03-04T22:30:00.25-03:00</emitidaEm>');
+  });
+
+  it('throws XsdSerializationError for values the type cannot represent', async () => {
+    const convert = convertJsonToXml({ guia: { ...guia, quantidade: 1.5 } }, schema);
+    await expect(convert).rejects.toThrowError(XsdSerializationError);
+    await expect(convert).rejects.toMatchObject({
+      path: '$.guia.quantidade',
+      typeName: 'xs:int',
+      reason: 'Number 1.5 cannot be written as xs:int: not an integer.',
+    });
+  });
+
+  it('reports values the type cannot represent in strict mode', async () => {
+    const compiled = await compileSchema(schema);
+    const issues = compiled.validate({
+      guia: { ...guia, internado: 2, dataAtendimento: 20240305, anexo: guia.emitidaEm },
+    });
+    expect(issues.map((i) => [i.path, i.message])).toEqual([
+      ['$.guia.internado', 'Number 2 cannot be written as xs:boolean.'],
+      ['$.guia.dataAtendimento', 'Number 20240305 cannot be written as xs:date.'],
+      ['$.guia.anexo', 'Date 2024-03-05T01:30:00.250Z cannot be written as xs:base64Binary.'],
+    ]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Large integers and decimals
+// ---------------------------------------------------------------------------
+
+describe('convertJsonToXml — large integers and decimals', () => {
+  const schema = {
+    content: `<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">
+      <xs:simpleType name="st_valor">
+        <xs:restriction base="xs:decimal">
+          <xs:maxInclusive value="99999999999999999.99"/>
+        </xs:restriction>
+      </xs:simpleType>
+      <xs:element name="lote">
+        <xs:complexType>
+          <xs:sequence>
+            <xs:element name="id" type="xs:unsignedLong"/>
+            <xs:element name="sequencial" type="xs:long" minOccurs="0"/>
+            <xs:element name="quantidade" type="xs:short" minOccurs="0"/>
+            <xs:element name="valor" type="st_valor"/>
+          </xs:sequence>
+        </xs:complexType>
+      </xs:element>
+    </xs:schema>`,
+  };
+
+  it('writes bigints and decimal strings without losing digits', async () => {
+    const json = {
+      lote: {
+        id: 18446744073709551615n,
+        sequencial: -9223372036854775808n,
+        valor: '99999999999999999.99',
+      },
+    };
+    const xml = await convertJsonToXml(json, schema, { xmlDeclaration: false, strict: true });
+    expect(xml).toBe(
+      '<lote><id>18446744073709551615</id><sequencial>-9223372036854775808</sequencial>' +
+        '<valor>99999999999999999.99</valor></lote>',
+    );
+  });
+
+  it('range-checks integer types and decimal facets exactly', async () => {
+    const compiled = await compileSchema(schema);
+    const issues = compiled.validate({
+      lote: {
+        id: 18446744073709551616n,
+        sequencial: '9223372036854775808',
+        quantidade: 32768,
+        valor: '100000000000000000.00',
+      },
+    });
+    expect(issues.map((i) => [i.path, i.message])).toEqual([
+      ['$.lote.id', 'Value "18446744073709551616" is not a valid xs:unsignedLong.'],
+      ['$.lote.sequencial', 'Value "9223372036854775808" is not a valid xs:long.'],
+      ['$.lote.quantidade', 'Value "32768" is not a valid xs:short.'],
+      [
+        '$.lote.valor',
+        'Value "100000000000000000.00" must be less than or equal to 99999999999999999.99 (type "st_valor").',
+      ],
+    ]);
+  });
+
+  it('warns once about numbers beyond Number.MAX_SAFE_INTEGER for integer types', async () => {
+    const warnings: string[] = [];
+    const xml = await convertJsonToXml({ lote: { id: 2 ** 60, valor: 1 } }, schema, {
+      xmlDeclaration: false,
+      strict: true,
+      onWarning: (w) => warnings.push(`${w.path}: ${w.message}`),
+    });
+    expect(xml).toBe('<lote><id>1152921504606846976</id><valor>1</valor></lote>');
+    expect(warnings).toEqual([
+      '$.lote.id: Number 1152921504606847000 for xs:unsignedLong is beyond Number.MAX_SAFE_INTEGER and may not be exact; give it as a bigint or a string.',
+    ]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Value transformers
+// ---------------------------------------------------------------------------
+
+describe('convertJsonToXml — value transformers', () => {
+  const schema = {
+    content: `<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema"
+        xmlns:ans="urn:test:ans" targetNamespace="urn:test:ans" elementFormDefault="qualified">
+      <xs:simpleType name="st_CNPJ">
+        <xs:restriction base="xs:string">
+          <xs:pattern value="[0-9]{14}"/>
+        </xs:restriction>
+      </xs:simpleType>
+      <xs:element name="guia">
+        <xs:complexType>
+          <xs:sequence>
+            <xs:element name="cnpj" type="ans:st_CNPJ"/>
+            <xs:element name="nome" type="xs:string"/>
+            <xs:element name="valor" type="xs:decimal" maxOccurs="unbounded"/>
+          </xs:sequence>
+          <xs:attribute name="versao" type="xs:string"/>
+        </xs:complexType>
+      </xs:element>
+    </xs:schema>`,
+  };
+  const digits = (value: unknown) => String(value).replace(/\D/g, '');
+
+  it('applies transformers keyed by type name, element name and path glob', async () => {
+    const json = {
+      guia: {
+        '@versao': '4.01',
+        cnpj: '12.345.678/0001-95',
+        nome: '  Clínica  ',
+        valor: ['10,50', '3'],
+      },
+    };
+    const xml = await convertJsonToXml(json, schema, {
+      xmlDeclaration: false,
+      strict: true,
+      transformers: {
+        'ans:st_CNPJ': digits,
+        nome: (value) => String(value).trim(),
+        '@versao': (value) => `${value}.00`,
+        '$.*.valor': (value) => String(value).replace(',', '.'),
+      },
+    });
+    expect(xml).toBe(
+      '<guia xmlns="urn:test:ans" versao="4.01.00"><cnpj>12345678000195</cnpj>' +
+        '<nome>Clínica</nome><valor>10.50</valor><valor>3</valor></guia>',
+    );
+  });
+
+  it('matches bare keys by element name only, never by type name', async () => {
+    const xml = await convertJsonToXml(
+      { evento: { date: 'amanhã', quando: new Date('2020-01-02T00:00:00Z') } },
+      {
+        content: `<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">
+          <xs:element name="evento">
+            <xs:complexType>
+              <xs:sequence>
+                <xs:element name="date" type="xs:string"/>
+                <xs:element name="quando" type="xs:date"/>
+              </xs:sequence>
+            </xs:complexType>
+          </xs:element>
+        </xs:schema>`,
+      },
+      { xmlDeclaration: false, transformers: { date: (value) => `DATE(${value})` } },
+    );
+    expect(xml).toBe('<evento><date>DATE(amanhã)</date><quando>2020-01-02Z</quando></evento>');
+  });
+
+  it('prefers path keys over name keys over type keys', async () => {
+    const xml = await convertJsonToXml({ guia: { cnpj: 'a', nome: 'b', valor: 1 } }, schema, {
+      xmlDeclaration: false,
+      transformers: {
+        'xs:string': () => 'type',
+        nome: () => 'name',
+        '$.**.nome': () => 'path',
+      },
+    });
+    expect(xml).toBe(
+      '<guia xmlns="urn:test:ans"><cnpj>type</cnpj><nome>path</nome><valor>1</valor></guia>',
+    );
+  });
+
+  it('passes the schema context and validates the transformed values', async () => {
+    const contexts: string[] = [];
+    const compiled = await compileSchema(schema);
+    const issues = compiled.validate(
+      { guia: { cnpj: '12.345.678/0001-9', nome: 'x', valor: 1 } },
+      {
+        transformers: {
+          'ans:st_CNPJ': (value, context) => {
+            contexts.push(`${context.path} ${context.element.name} ${context.typeName}`);
+            return digits(value);
+          },
+        },
+      },
+    );
+    expect(new Set(contexts)).toEqual(new Set(['$.guia.cnpj cnpj ans:st_CNPJ']));
+    expect(issues.map((i) => [i.path, i.message])).toEqual([
+      [
+        '$.guia.cnpj',
+        'Value "1234567800019" does not match the pattern "[0-9]{14}" of type "st_CNPJ".',
+      ],
+    ]);
+  });
+
+  it('checks identity constraints on the transformed values', async () => {
+    const compiled = await compileSchema({
+      content: `<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">
+        <xs:element name="lote">
+          <xs:complexType>
+            <xs:sequence>
+              <xs:element name="cnpj" type="xs:string" maxOccurs="unbounded"/>
+            </xs:sequence>
+          </xs:complexType>
+          <xs:key name="cnpjKey">
+            <xs:selector xpath="cnpj"/>
+            <xs:field xpath="."/>
+          </xs:key>
+        </xs:element>
+      </xs:schema>`,
+    });
+    const issues = compiled.validate(
+      { lote: { cnpj: ['12.345', '12345'] } },
+      { transformers: { cnpj: digits } },
+    );
+    expect(issues.map((i) => [i.path, i.message])).toEqual([
+      ['$.lote.cnpj[1]', 'Duplicate value "12345" for key "cnpjKey" (first at $.lote.cnpj[0]).'],
+    ]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Key matching strategies and aliases
+// ---------------------------------------------------------------------------
+
+describe('convertJsonToXml — key matching and aliases', () => {
+  const schema = {
+    content: `<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">
+      <xs:element name="loteGuias">
+        <xs:complexType>
+          <xs:sequence>
+            <xs:element name="guia" maxOccurs="unbounded">
+              <xs:complexType>
+                <xs:sequence>
+                  <xs:element name="numeroGuiaPrestador" type="xs:string"/>
+                  <xs:element name="codigoTabela" type="xs:string" minOccurs="0"/>
+                </xs:sequence>
+                <xs:attribute name="tipoGuia" type="xs:string"/>
+              </xs:complexType>
+            </xs:element>
+          </xs:sequence>
+        </xs:complexType>
+      </xs:element>
+    </xs:schema>`,
+  };
+
+  it('matches snake_case, kebab-case and accented keys with normalized strategies', async () => {
+    const json: JsonObject = {
+      lote_guias: {
+        guia: [
+          { numero_guia_prestador: '1', 'código-tabela': '22', '@tipo_guia': 'SP' },
+          { 'numero-guia-prestador': '2' },
+        ],
+      },
+    };
+    const xml = await convertJsonToXml(json, schema, {
+      xmlDeclaration: false,
+      strict: true,
+      keyMatching: ['normalized', 'accent-insensitive'],
+    });
+    expect(xml).toBe(
+      '<loteGuias><guia tipoGuia="SP"><numeroGuiaPrestador>1</numeroGuiaPrestador>' +
+        '<codigoTabela>22</codigoTabela></guia>' +
+        '<guia><numeroGuiaPrestador>2</numeroGuiaPrestador></guia></loteGuias>',
+    );
+  });
+
+  it('keeps case-insensitive matching only by default', async () => {
+    const compiled = await compileSchema(schema);
+    const issues = compiled.validate({
+      loteGuias: { guia: { NUMEROGUIAPRESTADOR: '1', numero_guia: '2' } },
+    });
+    expect(issues.map((i) => [i.path, i.message])).toEqual([
+      [
+        '$.loteGuias.guia.numero_guia',
+        'Unknown property "numero_guia" not declared in schema for element "guia".',
+      ],
+    ]);
+  });
+
+  it('renames keys with the alias maps of the matching element paths', async () => {
+    const xml = await convertJsonToXml(
+      { lote: { guia: [{ numero_guia: '1', tabela: '22', tipo: 'SP' }] } },
+      schema,
+      {
+        xmlDeclaration: false,
+        strict: true,
+        keyAliases: {
+          $: { lote: 'loteGuias' },
+          '$.loteGuias.guia': { numero_guia: 'numeroGuiaPrestador', tipo: '@tipoGuia' },
+          '$.**.guia': { tabela: 'codigoTabela', numero_guia: 'ignored' },
+        },
+      },
+    );
+    expect(xml).toBe(
+      '<loteGuias><guia tipoGuia="SP"><numeroGuiaPrestador>1</numeroGuiaPrestador>' +
+        '<codigoTabela>22</codigoTabela></guia></loteGuias>',
+    );
+  });
+
+  it('reports two keys standing for the same schema name', async () => {
+    const json = { loteGuias: { guia: { numero_guia: '1', numeroGuiaPrestador: '2' } } };
+    const options = { keyAliases: { '$.**.guia': { numero_guia: 'numeroGuiaPrestador' } } };
+    const compiled = await compileSchema(schema);
+    expect(compiled.validate(json, options).map((i) => [i.path, i.message])).toEqual([
+      [
+        '$.loteGuias.guia.numeroGuiaPrestador',
+        'JSON keys "numero_guia" and "numeroGuiaPrestador" both stand for "numeroGuiaPrestador"; give only one of them.',
+      ],
+    ]);
+    expect(() => compiled.convert(json, options)).toThrow(XsdMappingError);
+    expect(() =>
+      compiled.convert({ loteGuias: { guia: { CodigoTabela: 'a', codigoTABELA: 'b' } } }),
+    ).toThrow(/JSON keys "CodigoTabela" and "codigoTABELA" both stand for "codigoTabela"/);
+  });
+});
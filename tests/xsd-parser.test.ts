@@ -2,6 +2,7 @@ import { dirname, resolve } from 'node:path';
 import { fileURLToPath } from 'node:url';
 import { describe, expect, it } from 'vitest';
 import { parseXsd } from '../src/xsd/parser.js';
+import type { ElementDef } from '../src/xsd/types.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -565,3 +566,854 @@ describe('parseXsd — circular include + default-NS import with xs:any (TISS pa
     TIMEOUT,
   );
 });
+
+// ---------------------------------------------------------------------------
+// xs:simpleType restriction facets — facets.xsd
+// ---------------------------------------------------------------------------
+
+describe('parseXsd — simpleType facets', () => {
+  it('collects enumeration values', async () => {
+    const model = await parseXsd(resolve(fixturesDir, 'facets.xsd'));
+    const st = model.simpleTypes.get('dm_tipoAtendimento');
+    expect(st?.base).toBe('xs:string');
+    expect(st?.facets.enumeration).toEqual(['01', '02', '03']);
+  });
+
+  it('collects length and pattern facets', async () => {
+    const model = await parseXsd(resolve(fixturesDir, 'facets.xsd'));
+    const st = model.simpleTypes.get('st_CNPJ');
+    expect(st?.facets).toEqual({ length: 14, patterns: ['[0-9]{14}'] });
+  });
+
+  it('flattens a restriction chain of named simple types down to the built-in base', async () => {
+    const model = await parseXsd(resolve(fixturesDir, 'facets.xsd'));
+    const st = model.simpleTypes.get('st_texto10');
+    expect(st?.base).toBe('xs:string');
+    expect(st?.facets.minLength).toBe(1);
+    expect(st?.facets.maxLength).toBe(10);
+    // Patterns of every derivation step must all be satisfied
+    expect(st?.facets.patterns).toEqual(['[A-Za-z ]+', '[A-Z].*']);
+  });
+
+  it('collects digit facets', async () => {
+    const model = await parseXsd(resolve(fixturesDir, 'facets.xsd'));
+    const st = model.simpleTypes.get('st_decimal5-2');
+    expect(st?.base).toBe('xs:decimal');
+    expect(st?.facets).toEqual({ totalDigits: 5, fractionDigits: 2 });
+  });
+
+  it('parses inline simple types on elements and attributes', async () => {
+    const model = await parseXsd(resolve(fixturesDir, 'facets.xsd'));
+    const ct = model.complexTypes.get('PrestadorType');
+    const quantidade = ct?.elements.find((e) => e.name === 'quantidade');
+    expect(quantidade?.inlineSimpleType?.base).toBe('xs:integer');
+    expect(quantidade?.inlineSimpleType?.facets).toEqual({
+      minInclusive: '1',
+      maxExclusive: '100',
+    });
+    expect(ct?.attributes[0].inlineSimpleType?.facets.length).toBe(8);
+  });
+
+  it('normalises bare built-in bases of default-namespace schemas (TISS)', async () => {
+    const schemaDir = resolve(__dirname, 'schema/tiss-comunicacao-040300');
+    const model = await parseXsd(resolve(schemaDir, 'tissSimpleTypesV4_03_00.xsd'));
+    const st = model.simpleTypes.get('dm_caraterAtendimento');
+    expect(st?.base).toBe('xs:string');
+    expect(st?.facets.enumeration).toEqual(['1', '2']);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// xs:group / xs:attributeGroup — groups.xsd
+// ---------------------------------------------------------------------------
+
+describe('parseXsd — xs:group and xs:attributeGroup', () => {
+  it('collects named groups, including those from an imported schema', async () => {
+    const model = await parseXsd(resolve(fixturesDir, 'groups.xsd'));
+    expect(model.groups.has('identificacao')).toBe(true);
+    expect(model.groups.has('beneficiario')).toBe(true);
+    expect(model.groups.has('cm:auditoria')).toBe(true);
+    expect(model.attributeGroups.has('rastreio')).toBe(true);
+    expect(model.attributeGroups.has('cm:versionamento')).toBe(true);
+  });
+
+  it('records where each group reference sits among the declared elements', async () => {
+    const model = await parseXsd(resolve(fixturesDir, 'groups.xsd'));
+    const ct = model.complexTypes.get('GuiaType');
+    expect(ct?.elements.map((e) => e.name)).toEqual(['registroANS', 'valorTotal']);
+    expect(
+      ct?.content?.particles.map((p) => (p.kind === 'element' ? p.element.name : p.kind)),
+    ).toEqual(['registroANS', 'groupRef', 'valorTotal', 'groupRef']);
+    expect(ct?.content?.particles.filter((p) => p.kind === 'groupRef')).toEqual([
+      { kind: 'groupRef', ref: 'identificacao', minOccurs: 1, maxOccurs: 1 },
+      { kind: 'groupRef', ref: 'cm:auditoria', minOccurs: 1, maxOccurs: 1 },
+    ]);
+    expect(ct?.attributeGroupRefs).toEqual([{ ref: 'rastreio', position: 1 }]);
+  });
+
+  it('walker expands (nested) group references in declared order', async () => {
+    const { SchemaWalker } = await import('../src/xsd/walker.js');
+    const model = await parseXsd(resolve(fixturesDir, 'groups.xsd'));
+    const walker = new SchemaWalker(model);
+    const guia = walker.lookupElement('guia');
+    expect(guia).toBeDefined();
+    if (!guia) return;
+    expect(walker.getChildElementsForElement(guia).map((e) => e.name)).toEqual([
+      'registroANS',
+      'numeroGuia',
+      'carteira',
+      'nomeBeneficiario',
+      'valorTotal',
+      'auditor',
+      'dataAuditoria',
+    ]);
+    expect(walker.getAttributesForElement(guia).map((a) => a.name)).toEqual([
+      'id',
+      'lote',
+      'versao',
+    ]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// xs:element ref / xs:attribute ref — refs.xsd
+// ---------------------------------------------------------------------------
+
+describe('parseXsd — element and attribute ref=', () => {
+  it('keeps the reference and uses its local name', async () => {
+    const model = await parseXsd(resolve(fixturesDir, 'refs.xsd'));
+    const children = model.elements.get('mensagem')?.inlineComplexType?.elements ?? [];
+    expect(children.map((e) => [e.name, e.ref])).toEqual([
+      ['cabecalho', 'r:cabecalho'],
+      ['item', 'r:item'],
+      ['Signature', 'ds:Signature'],
+    ]);
+  });
+
+  it('collects global attributes and registers imported elements under their prefix', async () => {
+    const model = await parseXsd(resolve(fixturesDir, 'refs.xsd'));
+    expect(model.attributes.get('versao')?.fixed).toBe('1.0');
+    expect(model.elements.has('ds:Signature')).toBe(true);
+    expect(model.elements.get('Signature')?.namespace).toBe('http://www.w3.org/2000/09/xmldsig#');
+  });
+
+  it('walker substitutes the referenced declaration, keeping occurrence constraints', async () => {
+    const { SchemaWalker } = await import('../src/xsd/walker.js');
+    const model = await parseXsd(resolve(fixturesDir, 'refs.xsd'));
+    const walker = new SchemaWalker(model);
+    const mensagem = walker.lookupElement('mensagem');
+    expect(mensagem).toBeDefined();
+    if (!mensagem) return;
+    const [cabecalho, item, signature] = walker.getChildElementsForElement(mensagem);
+    expect(cabecalho.inlineComplexType?.elements[0].name).toBe('origem');
+    expect(item.typeName).toBe('xs:string');
+    expect(item.maxOccurs).toBe(5);
+    expect(item.isArray).toBe(true);
+    expect(signature.typeName).toBe('ds:SignatureType');
+    expect(signature.minOccurs).toBe(0);
+    expect(signature.namespace).toBe('http://www.w3.org/2000/09/xmldsig#');
+
+    const attrs = walker.getAttributesForElement(mensagem);
+    expect(attrs.map((a) => [a.name, a.use, a.fixed])).toEqual([
+      ['versao', 'required', '1.0'],
+      ['xml:lang', 'optional', undefined],
+    ]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Nested compositors — particles.xsd
+// ---------------------------------------------------------------------------
+
+describe('parseXsd — content model particle tree', () => {
+  it('keeps nested compositors and their occurrence constraints', async () => {
+    const model = await parseXsd(resolve(fixturesDir, 'particles.xsd'));
+    const content = model.complexTypes.get('GuiaType')?.content;
+    expect(content?.compositor).toBe('sequence');
+    const particles = content?.particles ?? [];
+    expect(particles.map((p) => (p.kind === 'group' ? p.compositor : p.kind))).toEqual([
+      'element',
+      'choice',
+      'sequence',
+      'choice',
+      'element',
+    ]);
+
+    const identification = particles[1];
+    expect(identification.kind === 'group' && identification.particles[1]).toMatchObject({
+      kind: 'group',
+      compositor: 'sequence',
+      minOccurs: 1,
+      maxOccurs: 1,
+    });
+    expect(particles[2]).toMatchObject({ minOccurs: 0, maxOccurs: 1 });
+    expect(particles[3]).toMatchObject({ minOccurs: 1, maxOccurs: 'unbounded' });
+  });
+
+  it('flattens every nested element into elements, in document order', async () => {
+    const model = await parseXsd(resolve(fixturesDir, 'particles.xsd'));
+    expect(model.complexTypes.get('GuiaType')?.elements.map((e) => e.name)).toEqual([
+      'numeroGuia',
+      'carteira',
+      'nomeBeneficiario',
+      'nascimento',
+      'cns',
+      'codigoGlosa',
+      'motivoGlosa',
+      'procedimento',
+      'material',
+      'valorTotal',
+    ]);
+  });
+
+  it('walker resolves group references inside the tree', async () => {
+    const { SchemaWalker } = await import('../src/xsd/walker.js');
+    const walker = new SchemaWalker(await parseXsd(resolve(fixturesDir, 'groups.xsd')));
+    const guia = walker.lookupElement('guia');
+    if (!guia) throw new Error('guia not found');
+    const content = walker.getContentModelForElement(guia);
+    expect(content?.particles.map((p) => p.kind)).toEqual(['element', 'group', 'element', 'group']);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Derivation by restriction — derivation.xsd
+// ---------------------------------------------------------------------------
+
+describe('parseXsd — derivation by restriction', () => {
+  it('records the restricted base and the restated content model', async () => {
+    const model = await parseXsd(resolve(fixturesDir, 'derivation.xsd'));
+    const ct = model.complexTypes.get('ContatoRestritoType');
+    expect(ct?.restricts).toBe('ContatoType');
+    expect(ct?.extends).toBeUndefined();
+    expect(ct?.elements.map((e) => e.name)).toEqual(['nome', 'email']);
+    expect(ct?.attributes.map((a) => [a.name, a.use])).toEqual([
+      ['tipo', 'required'],
+      ['legado', 'prohibited'],
+    ]);
+  });
+
+  it('flattens simpleContent text types along the derivation chain', async () => {
+    const model = await parseXsd(resolve(fixturesDir, 'derivation.xsd'));
+    const valor = model.complexTypes.get('ValorRestritoType');
+    expect(valor?.hasTextContent).toBe(true);
+    expect(valor?.textType).toEqual({
+      name: 'ValorRestritoType',
+      base: 'xs:decimal',
+      facets: { minInclusive: '0', fractionDigits: 2 },
+    });
+    expect(model.complexTypes.get('CodigoType')?.textType).toMatchObject({
+      base: 'xs:string',
+      facets: { patterns: ['[0-9]+'] },
+    });
+  });
+
+  it('walker replaces the base content and narrows inherited attributes', async () => {
+    const { SchemaWalker } = await import('../src/xsd/walker.js');
+    const walker = new SchemaWalker(await parseXsd(resolve(fixturesDir, 'derivation.xsd')));
+    const contato = walker
+      .getChildElementsForElement(walker.lookupElement('lote') as ElementDef)
+      .find((e) => e.name === 'contato') as ElementDef;
+    expect(walker.getChildElementsForElement(contato).map((e) => e.name)).toEqual([
+      'nome',
+      'email',
+    ]);
+    expect(walker.getAttributesForElement(contato).map((a) => [a.name, a.use])).toEqual([
+      ['tipo', 'required'],
+      ['origem', 'optional'],
+    ]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// xs:list / xs:union — list-union.xsd
+// ---------------------------------------------------------------------------
+
+describe('parseXsd — xs:list and xs:union', () => {
+  it('parses list types with a named or anonymous item type', async () => {
+    const model = await parseXsd(resolve(fixturesDir, 'list-union.xsd'));
+    expect(model.simpleTypes.get('st_listaCodigos')).toMatchObject({
+      variety: 'list',
+      itemType: { name: 'st_codigo', base: 'xs:string', facets: { patterns: ['[0-9]{8}'] } },
+    });
+    expect(model.simpleTypes.get('st_dentes')).toMatchObject({
+      variety: 'list',
+      facets: { maxLength: 4 },
+      itemType: { base: 'xs:integer', facets: { minInclusive: '11', maxInclusive: '48' } },
+    });
+  });
+
+  it('parses union member types in declaration order', async () => {
+    const model = await parseXsd(resolve(fixturesDir, 'list-union.xsd'));
+    const validade = model.simpleTypes.get('st_validade');
+    expect(validade?.variety).toBe('union');
+    expect(validade?.memberTypes?.map((m) => [m.name, m.base])).toEqual([
+      ['xs:date', 'xs:date'],
+      ['', 'xs:string'],
+    ]);
+    expect(model.simpleTypes.get('st_quantidade')?.memberTypes?.[1]).toMatchObject({
+      name: 'st_ilimitado',
+      facets: { enumeration: ['ilimitado'] },
+    });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Substitution groups — substitution.xsd
+// ---------------------------------------------------------------------------
+
+describe('parseXsd — substitution groups', () => {
+  it('records abstract heads and substitution group membership', async () => {
+    const model = await parseXsd(resolve(fixturesDir, 'substitution.xsd'));
+    expect(model.elements.get('guia')?.abstract).toBe(true);
+    expect(model.elements.get('guiaConsulta')?.substitutionGroup).toBe('sg:guia');
+  });
+
+  it('walker lists the members of a head, transitively', async () => {
+    const { SchemaWalker } = await import('../src/xsd/walker.js');
+    const walker = new SchemaWalker(await parseXsd(resolve(fixturesDir, 'substitution.xsd')));
+    const head = walker.lookupElement('guia') as ElementDef;
+    expect(walker.getSubstitutionMembers(head).map((m) => m.name)).toEqual([
+      'guiaConsulta',
+      'guiaRetorno',
+      'guiaSimples',
+    ]);
+  });
+
+  it('walker turns a head reference into a choice of the head and its members', async () => {
+    const { SchemaWalker } = await import('../src/xsd/walker.js');
+    const walker = new SchemaWalker(await parseXsd(resolve(fixturesDir, 'substitution.xsd')));
+    const lote = walker.lookupElement('lote') as ElementDef;
+    const choice = walker.getContentModelForElement(lote)?.particles[1];
+    expect(choice).toMatchObject({ kind: 'group', compositor: 'choice', maxOccurs: 'unbounded' });
+    const members = walker.getChildElementsForElement(lote).slice(1);
+    expect(members.map((m) => [m.name, m.typeName, m.isArray])).toEqual([
+      ['guia', 'sg:GuiaType', true],
+      ['guiaConsulta', 'sg:GuiaConsultaType', true],
+      ['guiaRetorno', 'sg:GuiaConsultaType', true],
+      ['guiaSimples', 'sg:GuiaType', true],
+    ]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// xsi:type — xsi-type.xsd
+// ---------------------------------------------------------------------------
+
+describe('SchemaWalker — xsi:type resolution', () => {
+  it('retypes an element only with a type derived from its declared type', async () => {
+    const { SchemaWalker } = await import('../src/xsd/walker.js');
+    const walker = new SchemaWalker(await parseXsd(resolve(fixturesDir, 'xsi-type.xsd')));
+    const [guia, contato] = walker.getChildElementsForElement(
+      walker.lookupElement('pagamento') as ElementDef,
+    );
+    const typed = walker.resolveXsiType(guia, 'GuiaConsultaType');
+    expect(typed?.typeName).toBe('GuiaConsultaType');
+    expect(walker.getChildElementsForElement(typed as ElementDef).map((e) => e.name)).toEqual([
+      'numeroGuia',
+      'dataAtendimento',
+    ]);
+    expect(walker.resolveXsiType(guia, 'ReciboType')).toBeUndefined();
+    expect(walker.resolveXsiType(guia, 'Desconhecido')).toBeUndefined();
+    expect(walker.resolveXsiType(contato, 'ct:PhoneType')?.typeName).toBe('ct:PhoneType');
+  });
+
+  it('records the namespace of named complex types', async () => {
+    const model = await parseXsd(resolve(fixturesDir, 'xsi-type.xsd'));
+    expect(model.complexTypes.get('GuiaType')?.namespace).toBeUndefined();
+    expect(model.complexTypes.get('ct:PhoneType')?.namespace).toBe('http://example.com/contact');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Namespace qualification — namespaces.xsd
+// ---------------------------------------------------------------------------
+
+describe('parseXsd — namespace qualification', () => {
+  it('qualifies declarations by elementFormDefault, attributeFormDefault and form', async () => {
+    const { SchemaWalker } = await import('../src/xsd/walker.js');
+    const model = await parseXsd(resolve(fixturesDir, 'namespaces.xsd'));
+    const walker = new SchemaWalker(model);
+    const pedido = walker.lookupElement('pedido') as ElementDef;
+    expect(pedido.namespace).toBe('urn:test:namespaces');
+    const children = walker.getChildElementsForElement(pedido);
+    expect(children.map((c) => [c.name, c.namespace])).toEqual([
+      ['numero', 'urn:test:namespaces'],
+      ['observacao', undefined],
+      ['telefone', 'urn:test:namespaces'],
+      ['Signature', 'http://www.w3.org/2000/09/xmldsig#'],
+    ]);
+    expect(walker.getAttributesForElement(pedido).map((a) => [a.name, a.namespace])).toEqual([
+      ['id', undefined],
+      ['origem', 'urn:test:namespaces'],
+      ['versao', 'urn:test:namespaces'],
+    ]);
+    // Local declarations of an imported schema keep that schema's qualification
+    const telefone = children[2];
+    expect(walker.getChildElementsForElement(telefone).map((c) => c.namespace)).toEqual([
+      'http://example.com/contact',
+      'http://example.com/contact',
+    ]);
+    expect(walker.getAttributesForElement(telefone)[0].namespace).toBeUndefined();
+  });
+
+  it('collects the namespace prefixes of the schema', async () => {
+    const model = await parseXsd(resolve(fixturesDir, 'namespaces.xsd'));
+    expect(Object.fromEntries(model.namespaces ?? [])).toEqual({
+      n: 'urn:test:namespaces',
+      c: 'http://example.com/contact',
+      ds: 'http://www.w3.org/2000/09/xmldsig#',
+    });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Diagnostics — unresolved.xsd
+// ---------------------------------------------------------------------------
+
+describe('parseXsd — diagnostics', () => {
+  const fixture = resolve(fixturesDir, 'unresolved.xsd');
+
+  it('reports unresolved includes, imports and references', async () => {
+    const model = await parseXsd(fixture);
+    expect(model.diagnostics?.map((d) => [d.severity, d.code, d.reference, d.schemaFile])).toEqual([
+      ['error', 'UNRESOLVED_INCLUDE', 'missing-include.xsd', fixture],
+      ['error', 'UNRESOLVED_IMPORT', 'missing-import.xsd', fixture],
+      ['warning', 'IMPORT_WITHOUT_LOCATION', 'http://www.w3.org/XML/1998/namespace', fixture],
+      ['error', 'UNRESOLVED_TYPE', 'TipoInexistente', fixture],
+      ['error', 'UNRESOLVED_ELEMENT', 'ext:assinatura', fixture],
+      ['error', 'UNRESOLVED_GROUP', 'grupoInexistente', fixture],
+      ['error', 'UNRESOLVED_TYPE', 'ext:Versao', fixture],
+      ['error', 'UNRESOLVED_ATTRIBUTE_GROUP', 'atributosInexistentes', fixture],
+      ['error', 'UNRESOLVED_TYPE', 'CodigoBase', fixture],
+    ]);
+    expect(model.diagnostics?.[0].message).toContain(
+      'xs:include schemaLocation="missing-include.xsd" could not be loaded',
+    );
+    expect(model.diagnostics?.[3].message).toBe(
+      'Type "TipoInexistente" is not declared in the schema or its includes and imports.',
+    );
+  });
+
+  it('reports nothing for a schema whose references all resolve', async () => {
+    for (const name of ['namespaces.xsd', 'derivation.xsd', 'groups.xsd', 'mutual-a.xsd']) {
+      expect((await parseXsd(resolve(fixturesDir, name))).diagnostics).toEqual([]);
+    }
+  });
+
+  it('throws on unresolved references with failOnUnresolved', async () => {
+    const { XsdParseError } = await import('../src/validation/errors.js');
+    const error = await parseXsd(fixture, { failOnUnresolved: true }).catch((err) => err);
+    expect(error).toBeInstanceOf(XsdParseError);
+    expect(error.message).toContain('Unresolved schema references:');
+    // The warning for the import without schemaLocation is not an error
+    expect(error.diagnostics).toHaveLength(8);
+    await expect(
+      parseXsd(resolve(fixturesDir, 'namespaces.xsd'), { failOnUnresolved: true }),
+    ).resolves.toBeDefined();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Schema resolvers — url-imports.xsd / catalog.xml
+// ---------------------------------------------------------------------------
+
+describe('parseXsd — schema resolvers', () => {
+  const fixture = resolve(fixturesDir, 'url-imports.xsd');
+
+  it('cannot load URL imports from the filesystem', async () => {
+    const model = await parseXsd(fixture);
+    expect(model.diagnostics?.filter((d) => d.code === 'UNRESOLVED_IMPORT')).toHaveLength(2);
+  });
+
+  it('maps URL imports to local files through an XML catalog', async () => {
+    const { catalogResolver } = await import('../src/xsd/resolvers-fs.js');
+    const resolver = catalogResolver(resolve(fixturesDir, 'catalog.xml'));
+    const model = await parseXsd(fixture, { resolver });
+    expect(model.diagnostics).toEqual([]);
+    expect(model.sourceFiles).toEqual([
+      fixture,
+      resolve(fixturesDir, 'refs-dsig.xsd'),
+      resolve(fixturesDir, 'contact-types.xsd'),
+    ]);
+    expect(model.complexTypes.has('ct:PhoneType')).toBe(true);
+    expect(model.elements.has('ds:Signature')).toBe(true);
+  });
+
+  it('maps an import by its namespace with uri entries', async () => {
+    const { catalogResolver } = await import('../src/xsd/resolvers-fs.js');
+    const resolver = catalogResolver(resolve(fixturesDir, 'catalog.xml'));
+    const source = await resolver.resolve({
+      location: 'http://unknown.example/contact.xsd',
+      namespace: 'urn:test:by-namespace',
+    });
+    expect(source.id).toBe(resolve(fixturesDir, 'contact-types.xsd'));
+  });
+
+  it('resolves unmapped relative locations against the catalog directory', async () => {
+    const { catalogResolver } = await import('../src/xsd/resolvers-fs.js');
+    const resolver = catalogResolver(resolve(fixturesDir, 'catalog.xml'));
+    const source = await resolver.resolve({ location: 'simple.xsd' });
+    expect(source.id).toBe(resolve(fixturesDir, 'simple.xsd'));
+  });
+
+  it('reads file: URLs with escaped characters', async () => {
+    const { fileSystemResolver } = await import('../src/xsd/resolvers-fs.js');
+    const { mkdtemp, rm, writeFile } = await import('node:fs/promises');
+    const { tmpdir } = await import('node:os');
+    const { join } = await import('node:path');
+    const { pathToFileURL } = await import('node:url');
+    const dir = await mkdtemp(join(tmpdir(), 'xsd dir '));
+    const path = join(dir, 'tipos é.xsd');
+    await writeFile(path, '<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema"/>');
+    const source = await fileSystemResolver().resolve({ location: pathToFileURL(path).href });
+    expect(source.id).toBe(path);
+    await rm(dir, { recursive: true });
+  });
+
+  it('parses schemas held in memory', async () => {
+    const { memoryResolver } = await import('../src/xsd/resolvers.js');
+    const resolver = memoryResolver({
+      'schemas/main.xsd': `<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">
+          <xs:include schemaLocation="common/types.xsd"/>
+          <xs:element name="pedido" type="TipoPedido"/>
+        </xs:schema>`,
+      'schemas/common/types.xsd': new TextEncoder().encode(
+        `<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">
+          <xs:complexType name="TipoPedido">
+            <xs:sequence><xs:element name="numero" type="xs:string"/></xs:sequence>
+          </xs:complexType>
+        </xs:schema>`,
+      ),
+    });
+    const model = await parseXsd('schemas/main.xsd', { resolver });
+    expect(model.diagnostics).toEqual([]);
+    expect(model.sourceFiles).toEqual(['schemas/main.xsd', 'schemas/common/types.xsd']);
+    expect(model.complexTypes.get('TipoPedido')?.elements.map((e) => e.name)).toEqual(['numero']);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// In-memory sources
+// ---------------------------------------------------------------------------
+
+describe('parseSchema — in-memory sources', () => {
+  const main = `<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">
+      <xs:include schemaLocation="common/types.xsd"/>
+      <xs:element name="pedido" type="TipoPedido"/>
+    </xs:schema>`;
+  const types = `<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">
+      <xs:complexType name="TipoPedido">
+        <xs:sequence><xs:element name="numero" type="xs:string"/></xs:sequence>
+      </xs:complexType>
+    </xs:schema>`;
+
+  it('parses schema text with its sibling documents', async () => {
+    const { parseSchema } = await import('../src/xsd/schema-parser.js');
+    const model = await parseSchema({
+      content: main,
+      id: 'schemas/main.xsd',
+      documents: { 'schemas/common/types.xsd': types },
+    });
+    expect(model.rootElement).toBe('pedido');
+    expect(model.diagnostics).toEqual([]);
+    expect(model.sourceFiles).toEqual(['schemas/main.xsd', 'schemas/common/types.xsd']);
+  });
+
+  it('decodes ISO-8859-1 bytes following the encoding declaration', async () => {
+    const { parseSchema } = await import('../src/xsd/schema-parser.js');
+    const text = `<?xml version="1.0" encoding="ISO-8859-1"?>
+      <xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">
+        <xs:simpleType name="Cidade">
+          <xs:restriction base="xs:string"><xs:enumeration value="São Paulo"/></xs:restriction>
+        </xs:simpleType>
+      </xs:schema>`;
+    const bytes = Uint8Array.from(text, (ch) => ch.charCodeAt(0));
+    const model = await parseSchema({ content: bytes });
+    expect(model.simpleTypes.get('Cidade')?.facets?.enumeration).toEqual(['São Paulo']);
+  });
+
+  it('reports documents missing from the map as diagnostics', async () => {
+    const { parseSchema } = await import('../src/xsd/schema-parser.js');
+    const model = await parseSchema({ content: main });
+    expect(model.diagnostics?.map((d) => [d.code, d.reference])).toEqual([
+      ['UNRESOLVED_INCLUDE', 'common/types.xsd'],
+      ['UNRESOLVED_TYPE', 'TipoPedido'],
+    ]);
+  });
+
+  it('falls back to the resolver for documents not in the map', async () => {
+    const { parseSchema } = await import('../src/xsd/schema-parser.js');
+    const { memoryResolver } = await import('../src/xsd/resolvers.js');
+    const model = await parseSchema(
+      { content: main },
+      { resolver: memoryResolver({ 'common/types.xsd': types }) },
+    );
+    expect(model.diagnostics).toEqual([]);
+  });
+
+  it('requires a resolver to parse a schema by location', async () => {
+    const { parseSchema } = await import('../src/xsd/schema-parser.js');
+    const { XsdParseError } = await import('../src/validation/errors.js');
+    await expect(parseSchema('main.xsd')).rejects.toThrow(XsdParseError);
+  });
+
+  it('accepts schema text in parseXsd', async () => {
+    const model = await parseXsd({ content: main, documents: { 'common/types.xsd': types } });
+    expect(model.complexTypes.has('TipoPedido')).toBe(true);
+  });
+
+  it('keeps Node.js modules out of the core entry point', async () => {
+    const { readFile } = await import('node:fs/promises');
+    const srcDir = resolve(__dirname, '../src');
+    const seen = new Set<string>();
+    const nodeImports: string[] = [];
+    const visit = async (file: string): Promise<void> => {
+      if (seen.has(file)) return;
+      seen.add(file);
+      const source = await readFile(file, 'utf-8');
+      for (const [, specifier] of source.matchAll(/from '([^']+)'/g)) {
+        if (specifier.startsWith('.')) {
+          await visit(resolve(dirname(file), specifier.replace(/\.js$/, '.ts')));
+        } else if (specifier.startsWith('node:')) {
+          nodeImports.push(`${file}: ${specifier}`);
+        }
+      }
+    };
+    await visit(resolve(srcDir, 'core.ts'));
+    expect(seen.size).toBeGreaterThan(5);
+    expect(nodeImports).toEqual([]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// WSDL definitions — service.wsdl
+// ---------------------------------------------------------------------------
+
+describe('parseXsd — WSDL definitions', () => {
+  const TIMEOUT = 5_000;
+
+  it('merges every embedded schema, whatever prefix binds the XSD namespace', async () => {
+    const model = await parseXsd(resolve(fixturesDir, 'service.wsdl'));
+    expect([...model.elements.keys()]).toEqual(['consultaPedido', 'enviaPedido', 'recibo']);
+    expect(model.complexTypes.get('Item')?.namespace).toBe('urn:test:service:types');
+    expect(model.elements.get('enviaPedido')?.namespace).toBe('urn:test:service');
+    // s:string / s:int are built-ins, and the import by namespace alone is satisfied
+    expect(model.diagnostics).toEqual([]);
+  });
+
+  it('lists the operations with their messages and SOAP bindings', async () => {
+    const model = await parseXsd(resolve(fixturesDir, 'service.wsdl'));
+    expect(model.wsdl?.name).toBe('PedidoService');
+    expect([...(model.wsdl?.operations.keys() ?? [])]).toEqual(['Consulta', 'Envio']);
+    const envio = model.wsdl?.operations.get('Envio');
+    expect(envio?.input?.parts).toEqual([
+      { name: 'parameters', element: 'enviaPedido', namespace: 'urn:test:service' },
+    ]);
+    expect(envio?.output?.name).toBe('ReciboResponse');
+    expect(envio?.bindings).toEqual([
+      {
+        binding: 'PedidoSoap',
+        version: '1.1',
+        soapAction: 'urn:test:service/Envio',
+        style: 'document',
+        address: 'https://example.com/pedido',
+      },
+      {
+        binding: 'PedidoSoap12',
+        version: '1.2',
+        soapAction: 'urn:test:service/Envio12',
+        style: 'document',
+        address: 'https://example.com/pedido12',
+      },
+    ]);
+  });
+
+  it('defaults the root element to the request of the first operation', async () => {
+    const model = await parseXsd(resolve(fixturesDir, 'service.wsdl'));
+    expect(model.rootElement).toBe('consultaPedido');
+  });
+
+  it(
+    'reads the operation of a TISS WSDL',
+    async () => {
+      const schemaDir = resolve(__dirname, 'schema/tiss-comunicacao-040300');
+      const model = await parseXsd(
+        resolve(schemaDir, 'tissSolicitacaoStatusAutorizacaoV4_03_00.wsdl'),
+      );
+      const operation = model.wsdl?.operations.get('tissSolicitacaoStatusAutorizacao_Operation');
+      expect(operation?.input?.parts[0].element).toBe('solicitacaoStatusAutorizacaoWS');
+      expect(operation?.faults.map((f) => f.name)).toEqual(['tissFault']);
+      expect(operation?.bindings.map((b) => [b.version, b.soapAction])).toEqual([['1.1', '']]);
+      expect(model.rootElement).toBe('solicitacaoStatusAutorizacaoWS');
+    },
+    TIMEOUT,
+  );
+});
+
+// ---------------------------------------------------------------------------
+
+describe('parseSchema — annotations', () => {
+  const TIMEOUT = 5_000;
+  const schema = `<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">
+      <xs:element name="pedido" type="TipoPedido">
+        <xs:annotation>
+          <xs:documentation xml:lang="pt"> Pedido de <b>compra</b> &amp; venda </xs:documentation>
+          <xs:appinfo><campo id="1"/></xs:appinfo>
+        </xs:annotation>
+      </xs:element>
+      <xs:complexType name="TipoPedido">
+        <xs:annotation><xs:documentation>Estrutura do pedido</xs:documentation></xs:annotation>
+        <xs:sequence>
+          <xs:element name="numero" type="Numero"/>
+          <xs:element ref="obs" minOccurs="0"/>
+        </xs:sequence>
+        <xs:attribute name="versao" type="xs:string">
+          <xs:annotation><xs:documentation>Versão do leiaute</xs:documentation></xs:annotation>
+        </xs:attribute>
+      </xs:complexType>
+      <xs:simpleType name="Numero">
+        <xs:annotation><xs:documentation>Número do pedido</xs:documentation></xs:annotation>
+        <xs:restriction base="xs:string"/>
+      </xs:simpleType>
+      <xs:element name="obs" type="xs:string">
+        <xs:annotation><xs:documentation>Observação</xs:documentation></xs:annotation>
+      </xs:element>
+    </xs:schema>`;
+
+  it('keeps documentation and appinfo on declarations and types', async () => {
+    const { parseSchema } = await import('../src/xsd/schema-parser.js');
+    const model = await parseSchema({ content: schema });
+    expect(model.elements.get('pedido')?.annotation).toEqual({
+      documentation: ['Pedido de <b>compra</b> & venda'],
+      appinfo: ['<campo id="1"/>'],
+    });
+    const type = model.complexTypes.get('TipoPedido');
+    expect(type?.annotation?.documentation).toEqual(['Estrutura do pedido']);
+    expect(type?.attributes[0].annotation?.documentation).toEqual(['Versão do leiaute']);
+    expect(type?.elements[0].annotation).toBeUndefined();
+    expect(model.simpleTypes.get('Numero')?.annotation?.documentation).toEqual([
+      'Número do pedido',
+    ]);
+  });
+
+  it('keeps the markup of documentation under any prefix bound to the XSD namespace', async () => {
+    const { parseSchema } = await import('../src/xsd/schema-parser.js');
+    const model = await parseSchema({
+      content: `<definitions xmlns="http://schemas.xmlsoap.org/wsdl/"
+          xmlns:s="http://www.w3.org/2001/XMLSchema">
+        <types>
+          <s:schema>
+            <s:element name="pedido" type="s:string">
+              <s:annotation>
+                <s:documentation>Pedido de <b>compra</b></s:documentation>
+                <s:appinfo><campo id="1"/></s:appinfo>
+              </s:annotation>
+            </s:element>
+          </s:schema>
+        </types>
+      </definitions>`,
+    });
+    expect(model.elements.get('pedido')?.annotation).toEqual({
+      documentation: ['Pedido de <b>compra</b>'],
+      appinfo: ['<campo id="1"/>'],
+    });
+  });
+
+  it('walker falls back to the referenced declaration and to the type', async () => {
+    const { parseSchema } = await import('../src/xsd/schema-parser.js');
+    const { SchemaWalker } = await import('../src/xsd/walker.js');
+    const model = await parseSchema({ content: schema });
+    const walker = new SchemaWalker(model);
+    const pedido = model.elements.get('pedido');
+    if (!pedido) throw new Error('pedido not found');
+    const [numero, obs] = walker.getChildElementsForElement(pedido);
+    expect(walker.getDocumentation(pedido)).toBe('Pedido de <b>compra</b> & venda');
+    expect(walker.getAnnotation(pedido)?.appinfo).toEqual(['<campo id="1"/>']);
+    expect(walker.getDocumentation(numero)).toBe('Número do pedido');
+    expect(walker.getDocumentation(obs)).toBe('Observação');
+    expect(walker.getDocumentation(walker.getAttributesForElement(pedido)[0])).toBe(
+      'Versão do leiaute',
+    );
+  });
+
+  it(
+    'reads the documentation of the TISS schemas',
+    async () => {
+      const schemaDir = resolve(__dirname, 'schema/tiss-comunicacao-040300');
+      const model = await parseXsd(
+        resolve(schemaDir, 'tissSolicitacaoStatusAutorizacaoV4_03_00.wsdl'),
+      );
+      expect(model.complexTypes.get('ct_anexoRecebimento')?.annotation?.documentation).toEqual([
+        'estrutura de recibo do recebimento de um lote de anexos dos prestadores',
+      ]);
+    },
+    TIMEOUT,
+  );
+});
+
+// ---------------------------------------------------------------------------
+
+describe('parseSchema — nillable elements and value constraints', () => {
+  it('reads nillable declarations', async () => {
+    const { parseSchema } = await import('../src/xsd/schema-parser.js');
+    const model = await parseSchema({
+      content: `<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">
+          <xs:element name="dataAlta" type="xs:date" nillable="true"/>
+          <xs:element name="numero" type="xs:string"/>
+        </xs:schema>`,
+    });
+    expect(model.elements.get('dataAlta')?.nillable).toBe(true);
+    expect(model.elements.get('numero')?.nillable).toBeUndefined();
+  });
+
+  it('reads element default and fixed values', async () => {
+    const { parseSchema } = await import('../src/xsd/schema-parser.js');
+    const model = await parseSchema({
+      content: `<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">
+          <xs:element name="padrao" type="xs:string" fixed="4.03.00"/>
+          <xs:element name="prioridade" type="xs:int" default="1"/>
+        </xs:schema>`,
+    });
+    expect(model.elements.get('padrao')?.fixed).toBe('4.03.00');
+    expect(model.elements.get('prioridade')?.default).toBe('1');
+  });
+
+  it('lists prohibited attributes apart from the allowed ones', async () => {
+    const { SchemaWalker } = await import('../src/xsd/walker.js');
+    const walker = new SchemaWalker(await parseXsd(resolve(fixturesDir, 'derivation.xsd')));
+    const contato = walker
+      .getChildElementsForElement(walker.lookupElement('lote') as ElementDef)
+      .find((e) => e.name === 'contato') as ElementDef;
+    expect(walker.getProhibitedAttributesForElement(contato).map((a) => a.name)).toEqual([
+      'legado',
+    ]);
+    expect(walker.getAttributesForElement(contato).map((a) => a.name)).not.toContain('legado');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Identity constraints — identity.xsd
+// ---------------------------------------------------------------------------
+
+describe('parseXsd — identity constraints', () => {
+  it('reads key, unique and keyref declarations with their XPaths', async () => {
+    const model = await parseXsd(resolve(fixturesDir, 'identity.xsd'));
+    expect(model.elements.get('lote')?.identityConstraints).toEqual([
+      { kind: 'unique', name: 'guiaUnica', selector: 'l:guia', fields: ['l:numero'] },
+      {
+        kind: 'key',
+        name: 'procedimentoKey',
+        selector: 'l:procedimento',
+        fields: ['@tabela', '@codigo'],
+      },
+      {
+        kind: 'keyref',
+        name: 'itemProcedimento',
+        selector: './/l:item',
+        fields: ['@tabela', 'l:codigo'],
+        refer: 'l:procedimentoKey',
+      },
+    ]);
+  });
+});